@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useState} from 'react';
+import {Icon} from './Icon';
+import {validateAppIcon, validateAppName} from './appManifest';
+import {isBuiltInApp} from './appStore';
+import {AppDefinition} from './types';
+
+interface DesktopViewProps {
+  apps: AppDefinition[];
+  onAppOpen: (app: AppDefinition) => void;
+  onRenameApp: (appId: string, name: string) => void;
+  onChangeAppIcon: (appId: string, icon: string) => void;
+  onUninstallApp: (appId: string) => void;
+  /** Moves `movedId` into the position of `targetId`. */
+  onReorderApps: (movedId: string, targetId: string) => void;
+}
+
+interface ContextMenuState {
+  app: AppDefinition;
+  x: number;
+  y: number;
+}
+
+const menuItemClass =
+  'block w-full text-left px-3 py-1.5 text-sm hover:bg-blue-100 disabled:text-gray-400 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+
+export const DesktopView: React.FC<DesktopViewProps> = ({
+  apps,
+  onAppOpen,
+  onRenameApp,
+  onChangeAppIcon,
+  onUninstallApp,
+  onReorderApps,
+}) => {
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(
+    null,
+  );
+  const [draggedAppId, setDraggedAppId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!contextMenu) return;
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setContextMenu(null);
+    };
+    window.addEventListener('keydown', closeOnEscape);
+    return () => window.removeEventListener('keydown', closeOnEscape);
+  }, [contextMenu]);
+
+  const handleRename = (app: AppDefinition) => {
+    const name = window.prompt(`Rename "${app.name}" to:`, app.name)?.trim();
+    if (!name || name === app.name) return;
+    const problem = validateAppName(name);
+    if (problem) alert(problem);
+    else onRenameApp(app.id, name);
+  };
+
+  const handleChangeIcon = (app: AppDefinition) => {
+    const icon = window
+      .prompt(`New icon for "${app.name}" (an emoji):`, app.icon)
+      ?.trim();
+    if (!icon || icon === app.icon) return;
+    const problem = validateAppIcon(icon);
+    if (problem) alert(problem);
+    else onChangeAppIcon(app.id, icon);
+  };
+
+  const handleUninstall = (app: AppDefinition) => {
+    if (
+      window.confirm(
+        `Uninstall "${app.name}"? Its saved screens will be removed.`,
+      )
+    ) {
+      onUninstallApp(app.id);
+    }
+  };
+
+  const runMenuAction = (action: (app: AppDefinition) => void) => {
+    if (!contextMenu) return;
+    const {app} = contextMenu;
+    setContextMenu(null);
+    action(app);
+  };
+
+  return (
+    <div
+      className="relative flex flex-wrap content-start p-4 h-full"
+      onClick={() => setContextMenu(null)}>
+      {apps.map((app) => (
+        <div
+          key={app.id}
+          draggable
+          onDragStart={(e) => {
+            setDraggedAppId(app.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => {
+            if (draggedAppId && draggedAppId !== app.id) e.preventDefault();
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggedAppId) onReorderApps(draggedAppId, app.id);
+            setDraggedAppId(null);
+          }}
+          onDragEnd={() => setDraggedAppId(null)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            const bounds =
+              e.currentTarget.parentElement!.getBoundingClientRect();
+            setContextMenu({
+              app,
+              x: e.clientX - bounds.left,
+              y: e.clientY - bounds.top,
+            });
+          }}
+          className={draggedAppId === app.id ? 'opacity-50' : undefined}>
+          <Icon app={app} onInteract={() => onAppOpen(app)} />
+        </div>
+      ))}
+      {contextMenu && (
+        <div
+          role="menu"
+          className="absolute z-10 w-44 bg-white border border-gray-300 rounded-md shadow-lg py-1"
+          style={{left: contextMenu.x, top: contextMenu.y}}
+          onClick={(e) => e.stopPropagation()}>
+          <button
+            role="menuitem"
+            className={menuItemClass}
+            onClick={() => runMenuAction(onAppOpen)}>
+            Open
+          </button>
+          <button
+            role="menuitem"
+            className={menuItemClass}
+            onClick={() => runMenuAction(handleRename)}>
+            Rename…
+          </button>
+          <button
+            role="menuitem"
+            className={menuItemClass}
+            onClick={() => runMenuAction(handleChangeIcon)}>
+            Change icon…
+          </button>
+          <button
+            role="menuitem"
+            className={menuItemClass}
+            disabled={isBuiltInApp(contextMenu.app.id)}
+            title={
+              isBuiltInApp(contextMenu.app.id)
+                ? 'Built-in apps cannot be uninstalled'
+                : undefined
+            }
+            onClick={() => runMenuAction(handleUninstall)}>
+            Uninstall
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,162 +3,182 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 /* tslint:disable */
-import React, {useEffect, useRef} from 'react';
+import React, {useEffect, useMemo, useRef} from 'react';
+import {Menu} from './appMenus';
+import {CapturedScreen} from './domState';
+import {hasUserActivation, isOsHandledInteraction} from './osScriptApi';
+import {describeError} from './retry';
+import {
+  HostMessage,
+  SANDBOX_PERMISSIONS,
+  createSandboxDocument,
+  parseSandboxMessage,
+} from './sandboxBridge';
 import {InteractionData} from './types';
 
 interface GeneratedContentProps {
   htmlContent: string;
-  onInteract: (data: InteractionData) => void;
+  /** Receives the interaction and a snapshot of the screen as the user left it. */
+  onInteract: (data: InteractionData, screen: CapturedScreen) => void;
   appContext: string | null;
   isLoading: boolean; // Added isLoading prop
+  /** Receives the menus the screen declares for the window's menu bar. */
+  onMenusChange?: (menus: Menu[]) => void;
+  /** Performs a `window.os` call from the screen's scripts. */
+  onOsCall?: (method: string, args: unknown[]) => Promise<unknown>;
 }
 
+/**
+ * Renders a generated screen in a sandboxed frame (see sandboxBridge.ts).
+ * The frame runs the screen's scripts and reports interactions back.
+ */
 export const GeneratedContent: React.FC<GeneratedContentProps> = ({
   htmlContent,
   onInteract,
   appContext,
   isLoading,
+  onMenusChange,
+  onOsCall,
 }) => {
-  const contentRef = useRef<HTMLDivElement>(null);
-  const processedHtmlContentRef = useRef<string | null>(null); // Ref to track processed content
-
-  useEffect(() => {
-    const container = contentRef.current;
-    if (!container) return;
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const isReadyRef = useRef(false);
+  const srcDoc = useMemo(() => createSandboxDocument(), []);
+  const propsRef = useRef({onInteract, appContext, onMenusChange, onOsCall});
+  propsRef.current = {onInteract, appContext, onMenusChange, onOsCall};
+  const renderRef = useRef<HostMessage>({
+    type: 'render',
+    html: htmlContent,
+    isComplete: !isLoading,
+  });
+  renderRef.current = {
+    type: 'render',
+    html: htmlContent,
+    isComplete: !isLoading,
+  };
 
-    const handleClick = (event: MouseEvent) => {
-      let targetElement = event.target as HTMLElement;
+  // The frame has an opaque origin, so messages to it cannot name one;
+  // only its own window can receive them.
+  const postToFrame = (message: HostMessage) =>
+    frameRef.current?.contentWindow?.postMessage(message, '*');
 
-      // If a user clicks on an input or textarea to focus it for typing,
-      // do not process it as an interaction unless the element itself has an interaction ID.
-      // This prevents the click from bubbling up and triggering a parent element's handler.
-      if (
-        (targetElement.tagName === 'INPUT' ||
-          targetElement.tagName === 'TEXTAREA') &&
-        !targetElement.dataset.interactionId
-      ) {
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const frame = frameRef.current;
+      if (!frame || event.source !== frame.contentWindow) return;
+      const message = parseSandboxMessage(event.data);
+      if (!message) {
+        console.warn('Ignored a malformed message from a screen:', event.data);
         return;
       }
-
-      while (
-        targetElement &&
-        targetElement !== container &&
-        !targetElement.dataset.interactionId
-      ) {
-        targetElement = targetElement.parentElement as HTMLElement;
-      }
-
-      if (targetElement && targetElement.dataset.interactionId) {
-        event.preventDefault();
-
-        let interactionValue: string | undefined =
-          targetElement.dataset.interactionValue;
-
-        if (targetElement.dataset.valueFrom) {
-          const valueFrom = targetElement.dataset.valueFrom;
-          // Check if valueFrom is a JSON string for multiple inputs
-          if (valueFrom.trim().startsWith('{')) {
-            try {
-              const idMap = JSON.parse(valueFrom);
-              const values: Record<string, string> = {};
-              for (const key in idMap) {
-                const inputElement = document.getElementById(idMap[key]) as
-                  | HTMLInputElement
-                  | HTMLTextAreaElement;
-                if (inputElement) {
-                  values[key] = inputElement.value;
-                }
-              }
-              interactionValue = JSON.stringify(values);
-            } catch (e) {
-              console.error(
-                'Failed to parse data-value-from JSON. Make sure it is valid JSON.',
-                valueFrom,
-                e,
-              );
-            }
-          } else {
-            // Handle single input case
-            const inputElement = document.getElementById(valueFrom) as
-              | HTMLInputElement
-              | HTMLTextAreaElement;
-            if (inputElement) {
-              interactionValue = inputElement.value;
-            }
+      switch (message.type) {
+        case 'ready':
+          isReadyRef.current = true;
+          postToFrame(renderRef.current);
+          break;
+        case 'interaction':
+          // Scripts can post any id, so the OS's own actions also need a
+          // real click or key press behind them.
+          if (
+            isOsHandledInteraction(message.interaction.id) &&
+            !hasUserActivation()
+          ) {
+            console.warn(
+              `Ignored "${message.interaction.id}" from a screen without a user gesture.`,
+            );
+            break;
           }
+          propsRef.current.onInteract(
+            {
+              ...message.interaction,
+              appContext: propsRef.current.appContext,
+            },
+            message.screen,
+          );
+          break;
+        case 'menus':
+          propsRef.current.onMenusChange?.(
+            message.menus.map((menu, menuIndex) => ({
+              label: menu.label,
+              items: menu.items.map((item, itemIndex) => ({
+                ...item,
+                onSelect: () =>
+                  postToFrame({
+                    type: 'select_menu_item',
+                    menu: menuIndex,
+                    item: itemIndex,
+                  }),
+              })),
+            })),
+          );
+          break;
+        case 'os_call': {
+          const {callId, method, args} = message;
+          const {onOsCall} = propsRef.current;
+          (onOsCall
+            ? onOsCall(method, args)
+            : Promise.reject(new Error('This screen cannot use window.os.'))
+          ).then(
+            (value) => postToFrame({type: 'os_result', callId, value}),
+            (e) =>
+              postToFrame({type: 'os_result', callId, error: describeError(e)}),
+          );
+          break;
         }
-
-        const interactionData: InteractionData = {
-          id: targetElement.dataset.interactionId,
-          type: targetElement.dataset.interactionType || 'generic_click',
-          value: interactionValue,
-          elementType: targetElement.tagName.toLowerCase(),
-          elementText: (
-            targetElement.innerText ||
-            (targetElement as HTMLInputElement).value ||
-            ''
-          )
-            .trim()
-            .substring(0, 75),
-          appContext: appContext,
-        };
-        onInteract(interactionData);
-      }
-    };
-
-    container.addEventListener('click', handleClick);
-
-    // Process scripts only when loading is complete and content has changed
-    if (!isLoading) {
-      if (htmlContent !== processedHtmlContentRef.current) {
-        const scripts = Array.from(container.getElementsByTagName('script'));
-        // FIX: Explicitly type `oldScript` as `HTMLScriptElement` to resolve type inference issues.
-        scripts.forEach((oldScript: HTMLScriptElement) => {
-          try {
-            const newScript = document.createElement('script');
-            Array.from(oldScript.attributes).forEach((attr) =>
-              newScript.setAttribute(attr.name, attr.value),
-            );
-            newScript.text = oldScript.innerHTML;
-
-            if (oldScript.parentNode) {
-              oldScript.parentNode.replaceChild(newScript, oldScript);
-            } else {
-              console.warn(
-                'Script tag found without a parent node:',
-                oldScript,
-              );
-            }
-          } catch (e) {
-            console.error(
-              'Error processing/executing script tag. This usually indicates a syntax error in the LLM-generated script.',
-              {
-                scriptContent:
-                  oldScript.innerHTML.substring(0, 500) +
-                  (oldScript.innerHTML.length > 500 ? '...' : ''),
-                error: e,
-              },
+        case 'shortcut':
+          if (!hasUserActivation()) {
+            console.warn('Ignored a shortcut from a screen without a key press.');
+            break;
+          }
+          // Replayed on the OS window, where the shortcut handler listens.
+          window.dispatchEvent(
+            new KeyboardEvent('keydown', {
+              code: message.code,
+              altKey: true,
+              shiftKey: message.shiftKey,
+              bubbles: true,
+              cancelable: true,
+            }),
+          );
+          break;
+        case 'pointer': {
+          // Mouse back/forward navigates the window, so scripts must not be
+          // able to post these without the user pressing a button.
+          if (!hasUserActivation()) {
+            console.warn(
+              'Ignored a pointer event from a screen without a click.',
             );
+            break;
           }
-        });
-        processedHtmlContentRef.current = htmlContent; // Mark this content as processed
+          // Replayed on the frame element so the window focuses, menus close
+          // and mouse back/forward work as if the frame were plain content.
+          const init = {bubbles: true, cancelable: true, button: message.button};
+          frame.dispatchEvent(
+            message.event === 'pointerdown'
+              ? new PointerEvent('pointerdown', init)
+              : new MouseEvent('mouseup', init),
+          );
+          break;
+        }
       }
-    } else {
-      // If loading, reset the processed content ref. This ensures that when loading finishes,
-      // the new content (even if identical to a previous state before loading) is processed.
-      processedHtmlContentRef.current = null;
-    }
-
-    return () => {
-      container.removeEventListener('click', handleClick);
     };
-  }, [htmlContent, onInteract, appContext, isLoading]);
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Until the frame is ready, the latest screen is sent on 'ready' instead.
+  useEffect(() => {
+    if (isReadyRef.current) postToFrame(renderRef.current);
+  }, [htmlContent, isLoading]);
+
+  useEffect(() => () => propsRef.current.onMenusChange?.([]), []);
 
   return (
-    <div
-      ref={contentRef}
-      className="w-full h-full overflow-y-auto"
-      dangerouslySetInnerHTML={{__html: htmlContent}}
+    <iframe
+      ref={frameRef}
+      title="Screen"
+      sandbox={SANDBOX_PERMISSIONS}
+      srcDoc={srcDoc}
+      className="block w-full h-full border-0"
     />
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useRef} from 'react';
+import {LiveSessionState} from './liveSession';
+
+interface LiveSessionPanelProps {
+  session: LiveSessionState;
+  onStop: () => void;
+}
+
+const describeStatus = (session: LiveSessionState) => {
+  switch (session.status) {
+    case 'connecting':
+      return 'Connecting…';
+    case 'reconnecting':
+      return 'Connection lost. Reconnecting…';
+    case 'failed':
+      return session.error ?? 'The session ended unexpectedly.';
+    default:
+      return session.isModelSpeaking ? 'Speaking' : 'Listening';
+  }
+};
+
+/**
+ * Shown in place of the screen while its window hosts the voice session: the
+ * session's status, the live transcript of both sides, and a way to stop.
+ */
+export const LiveSessionPanel: React.FC<LiveSessionPanelProps> = ({
+  session,
+  onStop,
+}) => {
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const transcript = transcriptRef.current;
+    if (transcript) transcript.scrollTop = transcript.scrollHeight;
+  }, [session.transcript]);
+
+  const isActive = session.status === 'listening';
+  return (
+    <div className="flex flex-col h-full p-4 gap-4 font-sans">
+      <div className="flex items-center gap-4">
+        <div
+          className={`w-14 h-14 rounded-full flex items-center justify-center text-2xl flex-shrink-0 ${
+            session.status === 'failed'
+              ? 'bg-red-100'
+              : isActive
+                ? `bg-blue-500 shadow-lg shadow-blue-500/50 ${session.isModelSpeaking ? 'animate-pulse' : ''}`
+                : 'bg-gray-200 animate-pulse'
+          }`}>
+          🎙️
+        </div>
+        <div className="flex-grow min-w-0">
+          <p
+            className={`font-semibold ${session.status === 'failed' ? 'text-red-600' : 'text-gray-900'}`}
+            role="status"
+            aria-live="polite">
+            {describeStatus(session)}
+          </p>
+          <p className="text-xs text-gray-500 truncate">
+            Voice {session.voiceName} · {session.model}
+          </p>
+        </div>
+        <button
+          onClick={onStop}
+          className="bg-red-500 hover:bg-red-600 text-white rounded-md py-2 px-4 text-sm font-medium transition-colors flex-shrink-0">
+          {session.status === 'failed' ? 'Close Session' : 'Stop Session'}
+        </button>
+      </div>
+      <div
+        ref={transcriptRef}
+        className="flex-grow overflow-y-auto flex flex-col gap-2 border border-gray-200 rounded-lg bg-gray-50 p-3">
+        {session.transcript.length === 0 ? (
+          <p className="text-sm text-gray-500 m-auto">
+            {isActive ? 'Speak now. The transcript appears here.' : ''}
+          </p>
+        ) : (
+          session.transcript.map((entry) => (
+            <div
+              key={entry.id}
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                entry.speaker === 'user'
+                  ? 'self-end bg-blue-500 text-white'
+                  : 'self-start bg-white border border-gray-200 text-gray-800'
+              }`}>
+              {entry.text}
+              {entry.interrupted && (
+                <span className="ml-1 text-xs text-gray-400">(interrupted)</span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
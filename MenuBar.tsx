@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useRef, useState} from 'react';
+import {Menu, MenuItem} from './appMenus';
+
+interface MenuBarProps {
+  menus: Menu[];
+}
+
+/** A row of drop-down menus; once one is open, hovering another switches to it. */
+export const MenuBar: React.FC<MenuBarProps> = ({menus}) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (openIndex === null) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!barRef.current?.contains(event.target as Node)) setOpenIndex(null);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpenIndex(null);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [openIndex]);
+
+  // The app's menus change with every screen; close rather than point at a stale one.
+  useEffect(() => {
+    if (openIndex !== null && openIndex >= menus.length) setOpenIndex(null);
+  }, [menus, openIndex]);
+
+  const selectItem = (item: MenuItem) => {
+    setOpenIndex(null);
+    item.onSelect();
+  };
+
+  return (
+    <div ref={barRef} className="flex items-center gap-1 text-sm" role="menubar">
+      {menus.map((menu, index) => (
+        <div key={`${index}-${menu.label}`} className="relative">
+          <button
+            onClick={() => setOpenIndex(openIndex === index ? null : index)}
+            onMouseEnter={() => openIndex !== null && setOpenIndex(index)}
+            className={`px-2 py-0.5 rounded text-gray-800 ${openIndex === index ? 'bg-gray-300' : 'hover:bg-gray-200'}`}
+            role="menuitem"
+            aria-haspopup="menu"
+            aria-expanded={openIndex === index}>
+            {menu.label}
+          </button>
+          {openIndex === index && (
+            <ul
+              className="absolute left-0 top-full mt-1 z-10 min-w-[12rem] py-1 bg-white border border-gray-300 rounded-md shadow-lg"
+              role="menu"
+              aria-label={menu.label}>
+              {menu.items.map((item, itemIndex) => (
+                <li key={`${itemIndex}-${item.label}`} role="none">
+                  <button
+                    onClick={() => selectItem(item)}
+                    disabled={item.disabled}
+                    className="w-full flex justify-between gap-4 px-3 py-1 text-left text-gray-800 hover:bg-blue-100 disabled:text-gray-400 disabled:hover:bg-transparent"
+                    role="menuitem">
+                    <span className="truncate">{item.label}</span>
+                    {item.shortcut && (
+                      <kbd className="font-mono text-xs text-gray-500">
+                        {item.shortcut}
+                      </kbd>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useState} from 'react';
+import {
+  dismissNotification,
+  getNotifications,
+  subscribeToNotifications,
+} from './notifications';
+import {AppDefinition} from './types';
+
+interface NotificationToastsProps {
+  apps: AppDefinition[];
+}
+
+/** App notifications, stacked in the bottom-right corner above the taskbar. */
+export const NotificationToasts: React.FC<NotificationToastsProps> = ({
+  apps,
+}) => {
+  const [notifications, setNotifications] = useState(getNotifications);
+  useEffect(
+    () => subscribeToNotifications(() => setNotifications(getNotifications())),
+    [],
+  );
+
+  if (notifications.length === 0) return null;
+  return (
+    <div
+      className="absolute right-3 bottom-14 z-40 flex flex-col gap-2 w-72 font-sans"
+      role="status"
+      aria-live="polite">
+      {notifications.map((notification) => {
+        const app = apps.find((def) => def.id === notification.appId);
+        return (
+          <div
+            key={notification.id}
+            className="flex items-start gap-3 bg-white/95 backdrop-blur-md border border-gray-200 rounded-lg shadow-lg p-3">
+            <span className="text-xl leading-none">{app?.icon ?? '🔔'}</span>
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-semibold text-gray-900 truncate">
+                {notification.title}
+              </p>
+              <p className="text-sm text-gray-700 break-words">
+                {notification.message}
+              </p>
+            </div>
+            <button
+              onClick={() => dismissNotification(notification.id)}
+              className="text-gray-400 hover:text-gray-700 text-sm leading-none"
+              aria-label="Dismiss notification">
+              ✕
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useState} from 'react';
+import {UsageView, useUsageVersion} from './UsageView';
+import {
+  CAPABILITY_INFO,
+  getPermissionDecisions,
+  resetPermissions,
+  subscribeToPermissions,
+} from './capabilities';
+import {
+  clearContentCache,
+  getContentCacheStats,
+  subscribeToContentCache,
+} from './contentCache';
+import {
+  MAX_PREFETCH_PER_SCREEN,
+  PrefetchSettings,
+  getPrefetchSettings,
+  setPrefetchSettings,
+  subscribeToPrefetchSettings,
+} from './prefetcher';
+import {AppCapability} from './types';
+import {getTokensToday} from './usageTracker';
+
+export interface ReplayStatus {
+  fileName: string;
+  total: number;
+  remaining: number;
+}
+
+interface ParametersPanelProps {
+  providerLabel: string;
+  /** App names by id, for labelling per-app usage. */
+  appNames: Record<string, string>;
+  isRecording: boolean;
+  replayStatus: ReplayStatus | null;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onLoadReplay: () => void;
+  onStopReplay: () => void;
+  onClose: () => void;
+}
+
+const Section: React.FC<{title: string; children: React.ReactNode}> = ({
+  title,
+  children,
+}) => (
+  <section className="mb-4">
+    <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">
+      {title}
+    </h3>
+    {children}
+  </section>
+);
+
+const buttonClass =
+  'bg-blue-600 text-white rounded-md py-1 px-3 mr-2 text-sm font-medium hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors';
+
+/** Remembered capability decisions per app, each resettable. */
+const PermissionsList: React.FC<{appNames: Record<string, string>}> = ({
+  appNames,
+}) => {
+  const [, setVersion] = useState(0);
+  useEffect(() => subscribeToPermissions(() => setVersion((v) => v + 1)), []);
+  const entries = Object.entries(getPermissionDecisions()).filter(
+    ([, decisions]) => Object.keys(decisions).length > 0,
+  );
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No app has asked yet.</p>;
+  }
+  return (
+    <ul className="text-xs text-gray-800">
+      {entries.map(([appId, decisions]) => (
+        <li key={appId} className="flex items-start justify-between gap-2 mb-1">
+          <span>
+            <strong>{appNames[appId] ?? appId}:</strong>{' '}
+            {(Object.entries(decisions) as [AppCapability, boolean][])
+              .map(
+                ([capability, granted]) =>
+                  `${CAPABILITY_INFO[capability].label} ${granted ? '✓' : '✕'}`,
+              )
+              .join(', ')}
+          </span>
+          <button
+            className="text-blue-600 hover:underline flex-shrink-0"
+            onClick={() => resetPermissions(appId)}>
+            Reset
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const formatSize = (chars: number) =>
+  chars < 1_000_000
+    ? `${Math.ceil(chars / 1000)} KB`
+    : `${(chars / 1_000_000).toFixed(1)} MB`;
+
+/** What the screen cache holds per app, with controls to clear it. */
+const ContentCacheView: React.FC<{appNames: Record<string, string>}> = ({
+  appNames,
+}) => {
+  const [, setVersion] = useState(0);
+  useEffect(
+    () => subscribeToContentCache(() => setVersion((v) => v + 1)),
+    [],
+  );
+  const stats = getContentCacheStats();
+  const apps = Object.entries(stats.byApp).sort(
+    ([, a], [, b]) => b.size - a.size,
+  );
+
+  return (
+    <>
+      <p className="text-sm text-gray-800 mb-2">
+        {stats.entries} of {stats.maxEntries} screens,{' '}
+        {formatSize(stats.size)} of {formatSize(stats.maxSize)}
+      </p>
+      {apps.length > 0 && (
+        <ul className="text-xs text-gray-800 mb-2">
+          {apps.map(([appId, app]) => (
+            <li key={appId} className="flex justify-between gap-2 mb-1">
+              <span>
+                <strong>{appNames[appId] ?? appId}:</strong> {app.entries}{' '}
+                {app.entries === 1 ? 'screen' : 'screens'},{' '}
+                {formatSize(app.size)}
+              </span>
+              <button
+                className="text-blue-600 hover:underline flex-shrink-0"
+                onClick={() => clearContentCache([appId])}>
+                Clear
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        className={buttonClass}
+        onClick={() => clearContentCache()}
+        disabled={stats.entries === 0}>
+        Clear cache
+      </button>
+    </>
+  );
+};
+
+/** Turns speculative prefetching on or off and sets its limits. */
+const PrefetchView: React.FC = () => {
+  const [, setVersion] = useState(0);
+  useEffect(
+    () => subscribeToPrefetchSettings(() => setVersion((v) => v + 1)),
+    [],
+  );
+  useUsageVersion();
+  const settings = getPrefetchSettings();
+  const update = (changes: Partial<PrefetchSettings>) =>
+    setPrefetchSettings({...settings, ...changes});
+  const inputClass =
+    'w-20 border border-gray-300 rounded px-1 py-0.5 text-xs text-right';
+
+  return (
+    <div className="text-xs text-gray-800 space-y-1">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({enabled: e.target.checked})}
+        />
+        Prefetch likely next screens
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        Screens per screen viewed
+        <input
+          className={inputClass}
+          type="number"
+          min="1"
+          max={MAX_PREFETCH_PER_SCREEN}
+          value={settings.maxPerScreen}
+          onChange={(e) =>
+            update({
+              maxPerScreen: Math.min(
+                MAX_PREFETCH_PER_SCREEN,
+                Math.max(1, parseInt(e.target.value, 10) || 1),
+              ),
+            })
+          }
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        Daily token limit
+        <input
+          className={inputClass}
+          type="number"
+          min="0"
+          placeholder="none"
+          value={settings.dailyTokenLimit ?? ''}
+          onChange={(e) => {
+            const limit = parseInt(e.target.value, 10);
+            update({dailyTokenLimit: limit > 0 ? limit : null});
+          }}
+        />
+      </label>
+      <p className="text-gray-500">
+        {getTokensToday('prefetch').toLocaleString()} tokens used on
+        prefetching today.
+      </p>
+    </div>
+  );
+};
+
+/**
+ * OS-level parameters panel. Unlike the generated "Settings" app, this is part
+ * of the shell itself and controls how the OS talks to the model.
+ */
+export const ParametersPanel: React.FC<ParametersPanelProps> = ({
+  providerLabel,
+  appNames,
+  isRecording,
+  replayStatus,
+  onStartRecording,
+  onStopRecording,
+  onLoadReplay,
+  onStopReplay,
+  onClose,
+}) => {
+  return (
+    <div className="fixed bottom-16 right-4 w-80 max-h-[80vh] overflow-y-auto bg-white/95 backdrop-blur-md border border-gray-300 rounded-xl shadow-2xl p-4 z-50 font-sans">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="font-bold text-gray-900">System Parameters</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-800"
+          aria-label="Close system parameters">
+          &#x2715;
+        </button>
+      </div>
+
+      <Section title="Model provider">
+        <p className="text-sm text-gray-800">{providerLabel}</p>
+      </Section>
+
+      <Section title="App permissions">
+        <PermissionsList appNames={appNames} />
+      </Section>
+
+      <Section title="Screen cache">
+        <ContentCacheView appNames={appNames} />
+      </Section>
+
+      <Section title="Prefetch">
+        <PrefetchView />
+      </Section>
+
+      <Section title="Usage">
+        <UsageView appNames={appNames} />
+      </Section>
+
+      <Section title="Session recording">
+        {isRecording ? (
+          <>
+            <p className="text-sm text-red-600 mb-2">● Recording…</p>
+            <button className={buttonClass} onClick={onStopRecording}>
+              Stop &amp; save
+            </button>
+          </>
+        ) : (
+          <button
+            className={buttonClass}
+            onClick={onStartRecording}
+            disabled={!!replayStatus}>
+            Start recording
+          </button>
+        )}
+      </Section>
+
+      <Section title="Session replay">
+        {replayStatus ? (
+          <>
+            <p className="text-sm text-gray-800 mb-2">
+              {replayStatus.fileName}:{' '}
+              {replayStatus.remaining > 0
+                ? `step ${replayStatus.total - replayStatus.remaining} of ${replayStatus.total}`
+                : 'finished'}
+            </p>
+            <button className={buttonClass} onClick={onStopReplay}>
+              Stop replay
+            </button>
+          </>
+        ) : (
+          <button
+            className={buttonClass}
+            onClick={onLoadReplay}
+            disabled={isRecording}>
+            Load session file…
+          </button>
+        )}
+      </Section>
+    </div>
+  );
+};
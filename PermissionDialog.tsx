@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React from 'react';
+import {CAPABILITY_INFO} from './capabilities';
+import {AppCapability, AppDefinition} from './types';
+
+interface PermissionDialogProps {
+  app: AppDefinition;
+  capability: AppCapability;
+  onDecide: (granted: boolean) => void;
+}
+
+/** Asks the user whether an app may use a capability for the first time. */
+export const PermissionDialog: React.FC<PermissionDialogProps> = ({
+  app,
+  capability,
+  onDecide,
+}) => {
+  const info = CAPABILITY_INFO[capability];
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 font-sans"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="permission-dialog-title">
+      <div className="w-96 bg-white rounded-xl shadow-2xl p-5">
+        <div className="flex items-center gap-3 mb-3">
+          <span className="text-4xl">{app.icon}</span>
+          <h2 id="permission-dialog-title" className="font-bold text-gray-900">
+            {info.label} permission
+          </h2>
+        </div>
+        <p className="text-sm text-gray-700 mb-4">
+          <strong>{app.name}</strong> wants to {info.description}. Your choice
+          is remembered and can be reset in System Parameters.
+        </p>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => onDecide(false)}
+            className="rounded-md py-1 px-3 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors">
+            Deny
+          </button>
+          <button
+            autoFocus
+            onClick={() => onDecide(true)}
+            className="bg-blue-600 text-white rounded-md py-1 px-3 text-sm font-medium hover:bg-blue-700 transition-colors">
+            Allow
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React from 'react';
+import {ScreenMeta, SuggestedAction} from './types';
+
+interface ScreenFooterProps {
+  meta: ScreenMeta;
+  onSuggestedAction: (action: SuggestedAction) => void;
+}
+
+/** Shows the warnings and suggested next actions from a screen's envelope. */
+export const ScreenFooter: React.FC<ScreenFooterProps> = ({
+  meta,
+  onSuggestedAction,
+}) => {
+  if (meta.warnings.length === 0 && meta.suggestedActions.length === 0) {
+    return null;
+  }
+  return (
+    <div className="border-t border-gray-200 bg-gray-50 px-3 py-2 text-sm">
+      {meta.warnings.map((warning, index) => (
+        <p key={index} className="text-amber-700 mb-1">
+          ⚠️ {warning}
+        </p>
+      ))}
+      {meta.suggestedActions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-500">Suggested:</span>
+          {meta.suggestedActions.map((action) => (
+            <button
+              key={action.id}
+              onClick={() => onSuggestedAction(action)}
+              className="bg-white border border-gray-300 rounded-full py-0.5 px-3 text-gray-800 hover:bg-blue-50 hover:border-blue-400 transition-colors">
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React from 'react';
+
+interface SourceDialogProps {
+  title: string;
+  html: string;
+  onClose: () => void;
+}
+
+/** Shows the generated HTML behind a window's current screen. */
+export const SourceDialog: React.FC<SourceDialogProps> = ({
+  title,
+  html,
+  onClose,
+}) => {
+  const copySource = () =>
+    navigator.clipboard.writeText(html).catch((e) => {
+      console.error('Failed to copy the screen source:', e);
+      alert('Could not copy the source to the clipboard.');
+    });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-center justify-center z-50 font-sans"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="source-dialog-title"
+      onClick={onClose}
+      onKeyDown={(e) => e.key === 'Escape' && onClose()}>
+      <div
+        className="w-[48rem] max-w-[90vw] max-h-[80vh] flex flex-col bg-white rounded-xl shadow-2xl p-5"
+        onClick={(e) => e.stopPropagation()}>
+        <h2
+          id="source-dialog-title"
+          className="font-bold text-gray-900 mb-3 truncate">
+          Source of {title}
+        </h2>
+        <pre className="flex-grow overflow-auto bg-gray-900 text-gray-100 text-xs rounded-md p-3 whitespace-pre-wrap break-all">
+          {html || '(This screen is empty.)'}
+        </pre>
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            onClick={copySource}
+            className="rounded-md py-1 px-3 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors">
+            Copy
+          </button>
+          <button
+            autoFocus
+            onClick={onClose}
+            className="bg-blue-600 text-white rounded-md py-1 px-3 text-sm font-medium hover:bg-blue-700 transition-colors">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
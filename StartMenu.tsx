@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useState} from 'react';
+import {OS_SHORTCUTS} from './shortcuts';
+import {AppDefinition} from './types';
+
+interface StartMenuProps {
+  apps: AppDefinition[];
+  onAppOpen: (app: AppDefinition) => void;
+  onClose: () => void;
+}
+
+const matchesQuery = (app: AppDefinition, query: string) =>
+  `${app.name} ${app.description ?? ''}`.toLowerCase().includes(query);
+
+/** Lists every installed app with a search box; Enter opens the highlighted one. */
+export const StartMenu: React.FC<StartMenuProps> = ({
+  apps,
+  onAppOpen,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const results = apps
+    .filter((app) => matchesQuery(app, normalizedQuery))
+    // Name matches first, then description matches, each alphabetical.
+    .sort(
+      (a, b) =>
+        Number(!a.name.toLowerCase().includes(normalizedQuery)) -
+          Number(!b.name.toLowerCase().includes(normalizedQuery)) ||
+        a.name.localeCompare(b.name),
+    );
+  const selected = results[Math.min(selectedIndex, results.length - 1)];
+
+  const openApp = (app: AppDefinition) => {
+    onClose();
+    onAppOpen(app);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedIndex(
+        (index) =>
+          (Math.min(index, results.length - 1) + step + results.length) %
+          Math.max(results.length, 1),
+      );
+    } else if (e.key === 'Enter' && selected) {
+      e.preventDefault();
+      openApp(selected);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <div className="absolute inset-0 z-40" onClick={onClose} />
+      <div
+        className="absolute left-2 bottom-14 z-50 w-80 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-md border border-gray-300 rounded-xl shadow-2xl font-sans"
+        role="dialog"
+        aria-label="Start menu"
+        onKeyDown={handleKeyDown}>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelectedIndex(0);
+          }}
+          placeholder="Search apps…"
+          aria-label="Search apps"
+          className="m-3 mb-2 p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+        />
+        <ul className="flex-grow overflow-y-auto px-2" role="listbox">
+          {results.map((app) => (
+            <li key={app.id} role="option" aria-selected={app === selected}>
+              <button
+                onClick={() => openApp(app)}
+                onMouseEnter={() => setSelectedIndex(results.indexOf(app))}
+                className={`w-full flex items-center gap-3 text-left rounded-md px-2 py-1.5 ${app === selected ? 'bg-blue-100' : ''}`}>
+                <span className="text-2xl">{app.icon}</span>
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium text-gray-900 truncate">
+                    {app.name}
+                  </span>
+                  {app.description && (
+                    <span className="block text-xs text-gray-500 truncate">
+                      {app.description}
+                    </span>
+                  )}
+                </span>
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="text-sm text-gray-500 px-2 py-3">
+              No apps match "{query}".
+            </li>
+          )}
+        </ul>
+        <div className="border-t border-gray-200 px-3 py-2 text-xs text-gray-500 space-y-0.5">
+          {OS_SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.action} className="flex justify-between gap-2">
+              <span>{shortcut.description}</span>
+              <kbd className="font-mono">{shortcut.label}</kbd>
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
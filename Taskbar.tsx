@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useState} from 'react';
+import {AppDefinition} from './types';
+import {BudgetStatus} from './usageTracker';
+import {AppWindow} from './windowManager';
+
+interface TaskbarProps {
+  apps: AppDefinition[];
+  windows: AppWindow[];
+  focusedWindowId: string | null;
+  isStartMenuOpen: boolean;
+  onToggleStartMenu: () => void;
+  /** Brings the window forward, or minimises it if it already is in front. */
+  onWindowClick: (windowId: string) => void;
+  // System tray
+  isRecording: boolean;
+  isReplaying: boolean;
+  budgetStatus: BudgetStatus;
+  onOpenParameters: () => void;
+}
+
+const CLOCK_INTERVAL_MS = 10_000;
+
+function useClock(): Date {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+const trayButtonClass =
+  'w-8 h-8 rounded-md flex items-center justify-center hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-blue-400';
+
+/** The bar along the bottom of the screen: start button, open windows, tray and clock. */
+export const Taskbar: React.FC<TaskbarProps> = ({
+  apps,
+  windows,
+  focusedWindowId,
+  isStartMenuOpen,
+  onToggleStartMenu,
+  onWindowClick,
+  isRecording,
+  isReplaying,
+  budgetStatus,
+  onOpenParameters,
+}) => {
+  const now = useClock();
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 h-12 bg-gray-800/80 backdrop-blur-md flex items-center gap-2 px-2 text-white font-sans select-none">
+      <button
+        onClick={onToggleStartMenu}
+        className={`h-9 px-3 rounded-md flex items-center gap-2 font-semibold text-sm transition-colors ${isStartMenuOpen ? 'bg-white/25' : 'hover:bg-white/10'}`}
+        aria-label="Start menu"
+        aria-expanded={isStartMenuOpen}>
+        <span className="text-lg">🪟</span>
+        Start
+      </button>
+
+      {/* Open windows */}
+      <div className="flex-grow flex items-center gap-2 overflow-x-auto">
+        {windows.map((appWindow) => {
+          const app = apps.find((def) => def.id === appWindow.appId);
+          if (!app) return null;
+          const isFocused = appWindow.id === focusedWindowId;
+          const title = appWindow.meta.title || app.name;
+          return (
+            <button
+              key={appWindow.id}
+              onClick={() => onWindowClick(appWindow.id)}
+              className={`flex items-center gap-2 max-w-[12rem] rounded-md py-1 px-3 text-sm transition-colors ${isFocused ? 'bg-white/25' : 'hover:bg-white/10'} ${appWindow.isMinimized ? 'opacity-60' : ''}`}
+              title={title}>
+              <span>{app.icon}</span>
+              <span className="truncate">{title}</span>
+              {appWindow.isLoading && (
+                <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse flex-shrink-0" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* System tray */}
+      <div className="flex items-center gap-1 text-sm">
+        {isRecording && (
+          <span className={trayButtonClass} title="Recording this session">
+            🔴
+          </span>
+        )}
+        {isReplaying && (
+          <span className={trayButtonClass} title="Replaying a session">
+            ▶️
+          </span>
+        )}
+        {budgetStatus.exceeded && (
+          <span className={trayButtonClass} title={budgetStatus.message}>
+            {budgetStatus.blocked ? '⛔' : '⚠️'}
+          </span>
+        )}
+        <button
+          onClick={onOpenParameters}
+          className={trayButtonClass}
+          aria-label="Open system parameters"
+          title="System parameters">
+          🛠️
+        </button>
+        <time
+          className="px-2 tabular-nums"
+          dateTime={now.toISOString()}
+          title={now.toLocaleDateString(undefined, {dateStyle: 'full'})}>
+          {now.toLocaleTimeString(undefined, {
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+        </time>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useRef, useState} from 'react';
+import {requestCapability} from './capabilities';
+import {runTerminalCommandWithModel} from './geminiService';
+import {describeError, isAbortError} from './retry';
+import {
+  HOME_PATH,
+  ShellContext,
+  appendToShellHistory,
+  completeCommandLine,
+  loadShellHistory,
+  runShellCommand,
+} from './terminalShell';
+import {AppDefinition} from './types';
+
+interface TerminalViewProps {
+  app: AppDefinition;
+  apps: AppDefinition[];
+  onOpenApp: (app: AppDefinition) => void;
+  /** Called after a command creates, moves or deletes files. */
+  onFilesChanged: () => void;
+}
+
+interface TerminalLine {
+  text: string;
+  isCommand?: boolean;
+}
+
+/** Lines of recent output sent to the model with an unknown command. */
+const MODEL_TRANSCRIPT_LINES = 40;
+
+const displayPath = (path: string) =>
+  path === HOME_PATH
+    ? '~'
+    : path.startsWith(`${HOME_PATH}/`)
+      ? `~${path.substring(HOME_PATH.length)}`
+      : path;
+
+/**
+ * The Terminal app. Built-in commands run locally through terminalShell;
+ * the rest are answered by the model.
+ */
+export const TerminalView: React.FC<TerminalViewProps> = ({
+  app,
+  apps,
+  onOpenApp,
+  onFilesChanged,
+}) => {
+  const [lines, setLines] = useState<TerminalLine[]>([
+    {text: 'MichaelWalshOS shell. Type "help" for the built-in commands.'},
+  ]);
+  const [cwd, setCwd] = useState(HOME_PATH);
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>(loadShellHistory);
+  // Position while browsing history with the arrow keys; null when editing a new line.
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    outputRef.current?.scrollTo({top: outputRef.current.scrollHeight});
+  }, [lines]);
+
+  useEffect(() => {
+    if (!isRunning) {
+      inputRef.current?.focus();
+      return;
+    }
+    const cancelOnCtrlC = (e: KeyboardEvent) => {
+      if (e.key === 'c' && e.ctrlKey) controllerRef.current?.abort();
+    };
+    window.addEventListener('keydown', cancelOnCtrlC);
+    return () => window.removeEventListener('keydown', cancelOnCtrlC);
+  }, [isRunning]);
+
+  const prompt = `${displayPath(cwd)} $`;
+
+  const getContext = (commandHistory: string[]): ShellContext => ({
+    cwd,
+    history: commandHistory,
+    apps,
+    requestFileAccess: () => requestCapability(app, 'persistent_storage'),
+  });
+
+  const print = (output: string[]) =>
+    setLines((prev) => [...prev, ...output.map((text) => ({text}))]);
+
+  const runCommand = async (command: string) => {
+    const nextHistory = command.trim()
+      ? appendToShellHistory(history, command.trim())
+      : history;
+    setHistory(nextHistory);
+    setHistoryIndex(null);
+    setInput('');
+    setLines((prev) => [...prev, {text: `${prompt} ${command}`, isCommand: true}]);
+
+    setIsRunning(true);
+    try {
+      const result = await runShellCommand(command, getContext(nextHistory));
+      if (result.unknown) {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const transcript = lines
+          .slice(-MODEL_TRANSCRIPT_LINES)
+          .map((line) => line.text);
+        const output = await runTerminalCommandWithModel(
+          command.trim(),
+          app,
+          cwd,
+          transcript,
+          controller.signal,
+        );
+        print(output ? output.split('\n') : []);
+        return;
+      }
+      if (result.clear) {
+        setLines([]);
+      } else {
+        print(result.output);
+      }
+      if (result.cwd) setCwd(result.cwd);
+      if (result.changedFiles) onFilesChanged();
+      if (result.openApp) onOpenApp(result.openApp);
+    } catch (e) {
+      if (isAbortError(e)) {
+        print(['^C']);
+      } else {
+        console.error('Terminal command failed:', e);
+        print([`shell: ${describeError(e)}`]);
+      }
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(input);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (history.length === 0) return;
+      const current = historyIndex ?? history.length;
+      const next = Math.min(
+        Math.max(current + (e.key === 'ArrowUp' ? -1 : 1), 0),
+        history.length,
+      );
+      setHistoryIndex(next === history.length ? null : next);
+      setInput(next === history.length ? '' : history[next]);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const completion = await completeCommandLine(input, getContext(history));
+      setInput(completion.line);
+      if (completion.candidates.length > 0) {
+        setLines((prev) => [
+          ...prev,
+          {text: `${prompt} ${input}`, isCommand: true},
+          {text: completion.candidates.join('  ')},
+        ]);
+      }
+    } else if (e.key === 'l' && e.ctrlKey) {
+      e.preventDefault();
+      setLines([]);
+    } else if (
+      e.key === 'c' &&
+      e.ctrlKey &&
+      e.currentTarget.selectionStart === e.currentTarget.selectionEnd
+    ) {
+      // Without a selection to copy, Ctrl+C abandons the line.
+      e.preventDefault();
+      setLines((prev) => [
+        ...prev,
+        {text: `${prompt} ${input}^C`, isCommand: true},
+      ]);
+      setInput('');
+      setHistoryIndex(null);
+    }
+  };
+
+  return (
+    <div
+      className="terminal"
+      onClick={() => {
+        // Clicking anywhere focuses the prompt, unless the user is selecting text.
+        if (!window.getSelection()?.toString()) inputRef.current?.focus();
+      }}>
+      <div ref={outputRef} className="terminal-output">
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={`terminal-line ${line.isCommand ? 'text-green-200' : ''}`}>
+            {line.text}
+          </div>
+        ))}
+      </div>
+      <div className="terminal-form">
+        {isRunning ? (
+          <button
+            className="text-xs text-green-200 underline"
+            onClick={() => controllerRef.current?.abort()}>
+            Running… (Ctrl+C to cancel)
+          </button>
+        ) : (
+          <>
+            <span className="terminal-prompt">{prompt}</span>
+            <input
+              ref={inputRef}
+              className="terminal-input"
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setHistoryIndex(null);
+              }}
+              onKeyDown={handleKeyDown}
+              spellCheck={false}
+              autoComplete="off"
+              aria-label="Terminal command"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
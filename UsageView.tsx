@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import React, {useEffect, useState} from 'react';
+import {
+  UsageBudget,
+  UsageTotals,
+  clearUsage,
+  getRecentUsage,
+  setBudget,
+  subscribeToUsage,
+  summarizeUsage,
+} from './usageTracker';
+
+const RECENT_CALLS_SHOWN = 5;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 10_000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString();
+
+const formatCost = (usd: number) =>
+  usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+/** Re-renders the calling component whenever recorded usage or the budget changes. */
+export function useUsageVersion(): number {
+  const [version, setVersion] = useState(0);
+  useEffect(() => subscribeToUsage(() => setVersion((v) => v + 1)), []);
+  return version;
+}
+
+const TotalsRow: React.FC<{label: string; totals: UsageTotals}> = ({
+  label,
+  totals,
+}) => (
+  <tr>
+    <td className="pr-2 text-gray-600 truncate max-w-[7rem]">{label}</td>
+    <td className="pr-2 text-right">{totals.calls}</td>
+    <td className="pr-2 text-right">{formatTokens(totals.totalTokens)}</td>
+    <td className="text-right">{formatCost(totals.costUsd)}</td>
+  </tr>
+);
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Token usage and estimated cost for today, this session and each app, plus
+ * the daily budget form. Shown in the System Parameters panel.
+ */
+export const UsageView: React.FC<{appNames: Record<string, string>}> = ({
+  appNames,
+}) => {
+  useUsageVersion();
+  const summary = summarizeUsage();
+  const recent = getRecentUsage(RECENT_CALLS_SHOWN);
+  const [draftBudget, setDraftBudget] = useState<UsageBudget>(summary.budget);
+
+  const inputClass =
+    'w-20 border border-gray-300 rounded px-1 py-0.5 text-xs text-right';
+
+  return (
+    <div className="text-xs text-gray-800">
+      {summary.budgetStatus.exceeded && (
+        <p
+          className={`mb-2 p-1 rounded ${summary.budgetStatus.blocked ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'}`}>
+          {summary.budgetStatus.message}
+        </p>
+      )}
+      <table className="w-full mb-2">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal"></th>
+            <th className="text-right font-normal pr-2">Calls</th>
+            <th className="text-right font-normal pr-2">Tokens</th>
+            <th className="text-right font-normal">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          <TotalsRow label="Today" totals={summary.today} />
+          <TotalsRow label="This session" totals={summary.session} />
+          {Object.entries(summary.byApp)
+            .sort(([, a], [, b]) => b.totalTokens - a.totalTokens)
+            .map(([appId, totals]) => (
+              <TotalsRow
+                key={appId}
+                label={`· ${appNames[appId] ?? appId}`}
+                totals={totals}
+              />
+            ))}
+        </tbody>
+      </table>
+
+      {recent.length > 0 && (
+        <ul className="mb-2 text-gray-600">
+          {recent.map((record) => (
+            <li key={`${record.timestamp}-${record.kind}`} className="truncate">
+              {record.kind} · {record.model} ·{' '}
+              {formatTokens(record.usage.promptTokens)} in /{' '}
+              {formatTokens(record.usage.outputTokens)} out
+              {record.searchQueries > 0 &&
+                ` · ${record.searchQueries} search${record.searchQueries === 1 ? '' : 'es'}`}{' '}
+              · {(record.latencyMs / 1000).toFixed(1)}s
+              {record.estimated && ' (est.)'}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="flex flex-wrap items-center gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setBudget(draftBudget);
+        }}>
+        <label>
+          Daily tokens{' '}
+          <input
+            className={inputClass}
+            type="number"
+            min="0"
+            placeholder="none"
+            value={draftBudget.dailyTokenLimit ?? ''}
+            onChange={(e) =>
+              setDraftBudget({
+                ...draftBudget,
+                dailyTokenLimit: parseLimit(e.target.value),
+              })
+            }
+          />
+        </label>
+        <label>
+          USD{' '}
+          <input
+            className={inputClass}
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="none"
+            value={draftBudget.dailyCostLimitUsd ?? ''}
+            onChange={(e) =>
+              setDraftBudget({
+                ...draftBudget,
+                dailyCostLimitUsd: parseLimit(e.target.value),
+              })
+            }
+          />
+        </label>
+        <select
+          className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+          value={draftBudget.mode}
+          onChange={(e) =>
+            setDraftBudget({
+              ...draftBudget,
+              mode: e.target.value as UsageBudget['mode'],
+            })
+          }>
+          <option value="warn">Warn</option>
+          <option value="block">Block</option>
+        </select>
+        <button
+          type="submit"
+          className="bg-blue-600 text-white rounded px-2 py-0.5 hover:bg-blue-700">
+          Save
+        </button>
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-800 ml-auto"
+          onClick={clearUsage}>
+          Reset usage
+        </button>
+      </form>
+      <p className="mt-1 text-gray-400">
+        Costs are estimates from list prices.
+      </p>
+    </div>
+  );
+};
@@ -4,43 +4,214 @@
 */
 /* tslint:disable */
 import React from 'react';
+import {Menu} from './appMenus';
+import {MenuBar} from './MenuBar';
+import {WindowBounds} from './windowManager';
+
+/** Back, forward and regenerate for a window showing generated screens. */
+export interface WindowNavigation {
+  canGoBack: boolean;
+  canGoForward: boolean;
+  canRegenerate: boolean;
+  onBack: () => void;
+  onForward: () => void;
+  /** Asks the model for the current screen again, bypassing the cache. */
+  onRegenerate: () => void;
+}
 
 interface WindowProps {
   title: string;
+  icon?: string;
   children: React.ReactNode;
-  isAppOpen: boolean;
-  appId?: string | null;
-  onExitToDesktop: () => void;
+  /** The OS menus followed by any the app's screen declares. */
+  menus: Menu[];
+  navigation?: WindowNavigation;
+  bounds: WindowBounds;
+  zIndex: number;
+  isFocused: boolean;
+  isMinimized: boolean;
+  isMaximized: boolean;
+  onFocus: () => void;
+  /** Receives the new bounds while the window is dragged or resized. */
+  onBoundsChange: (bounds: WindowBounds) => void;
+  onMinimize: () => void;
+  onToggleMaximize: () => void;
+  onClose: () => void;
+}
+
+const navigationButtonClass =
+  'w-7 h-6 rounded text-gray-700 flex items-center justify-center hover:bg-gray-200 disabled:text-gray-300 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-400';
+
+// MouseEvent.button values of the side buttons on five-button mice.
+const MOUSE_BACK_BUTTON = 3;
+const MOUSE_FORWARD_BUTTON = 4;
+
+const titleButtonClass =
+  'w-6 h-6 rounded-full text-white flex items-center justify-center text-sm font-bold focus:outline-none focus:ring-2 transition-colors';
+
+/**
+ * Follows the pointer from a pointerdown until it is released, reporting how
+ * far it has moved. Used to drag and resize windows.
+ */
+function trackPointer(
+  e: React.PointerEvent,
+  onMove: (dx: number, dy: number) => void,
+) {
+  if (e.button !== 0) return;
+  e.preventDefault();
+  const startX = e.clientX;
+  const startY = e.clientY;
+  const handleMove = (event: PointerEvent) =>
+    onMove(event.clientX - startX, event.clientY - startY);
+  const handleUp = () => {
+    window.removeEventListener('pointermove', handleMove);
+    window.removeEventListener('pointerup', handleUp);
+  };
+  window.addEventListener('pointermove', handleMove);
+  window.addEventListener('pointerup', handleUp);
 }
 
 export const Window: React.FC<WindowProps> = ({
   title,
+  icon,
   children,
-  isAppOpen,
-  onExitToDesktop,
+  menus,
+  navigation,
+  bounds,
+  zIndex,
+  isFocused,
+  isMinimized,
+  isMaximized,
+  onFocus,
+  onBoundsChange,
+  onMinimize,
+  onToggleMaximize,
+  onClose,
 }) => {
+  const startDrag = (e: React.PointerEvent) => {
+    if (isMaximized) return;
+    trackPointer(e, (dx, dy) =>
+      onBoundsChange({...bounds, x: bounds.x + dx, y: bounds.y + dy}),
+    );
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (!navigation) return;
+    if (e.button === MOUSE_BACK_BUTTON) {
+      e.preventDefault();
+      if (navigation.canGoBack) navigation.onBack();
+    } else if (e.button === MOUSE_FORWARD_BUTTON) {
+      e.preventDefault();
+      if (navigation.canGoForward) navigation.onForward();
+    }
+  };
+
+  const startResize = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    trackPointer(e, (dx, dy) =>
+      onBoundsChange({
+        ...bounds,
+        width: bounds.width + dx,
+        height: bounds.height + dy,
+      }),
+    );
+  };
+
   return (
-    <div className="w-full max-w-4xl h-[90vh] max-h-[700px] bg-white/80 backdrop-blur-md border border-gray-300 rounded-xl shadow-2xl flex flex-col relative overflow-hidden font-sans">
+    <div
+      className={`absolute bg-white/80 backdrop-blur-md border border-gray-300 shadow-2xl flex flex-col overflow-hidden font-sans ${isMaximized ? 'inset-0' : 'rounded-xl'} ${isMinimized ? 'hidden' : ''}`}
+      style={
+        isMaximized
+          ? {zIndex}
+          : {
+              zIndex,
+              left: bounds.x,
+              top: bounds.y,
+              width: bounds.width,
+              height: bounds.height,
+            }
+      }
+      role="dialog"
+      aria-label={title}
+      onPointerDownCapture={onFocus}
+      onMouseUp={handleMouseUp}>
       {/* Title Bar */}
-      <div className="bg-gray-800/90 text-white py-2 px-4 font-semibold text-base flex justify-between items-center select-none cursor-default rounded-t-xl flex-shrink-0">
-        <span className="title-bar-text">{title}</span>
-        {isAppOpen && (
+      <div
+        className={`${isFocused ? 'bg-gray-800/90' : 'bg-gray-500/90'} text-white py-2 px-4 font-semibold text-base flex justify-between items-center select-none cursor-default flex-shrink-0`}
+        onPointerDown={startDrag}
+        onDoubleClick={onToggleMaximize}>
+        <span className="title-bar-text truncate">
+          {icon && <span className="mr-2">{icon}</span>}
+          {title}
+        </span>
+        <div
+          className="flex gap-2 flex-shrink-0"
+          onPointerDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}>
           <button
-            onClick={onExitToDesktop}
-            className="w-6 h-6 bg-red-500 rounded-full text-white flex items-center justify-center text-sm font-bold hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-400 transition-colors"
-            aria-label="Close application and return to Desktop">
+            onClick={onMinimize}
+            className={`${titleButtonClass} bg-yellow-500 hover:bg-yellow-600 focus:ring-yellow-300`}
+            aria-label="Minimize window">
+            &#x2013;
+          </button>
+          <button
+            onClick={onToggleMaximize}
+            className={`${titleButtonClass} bg-green-500 hover:bg-green-600 focus:ring-green-300`}
+            aria-label={isMaximized ? 'Restore window' : 'Maximize window'}>
+            {isMaximized ? '❐' : '□'}
+          </button>
+          <button
+            onClick={onClose}
+            className={`${titleButtonClass} bg-red-500 hover:bg-red-600 focus:ring-red-400`}
+            aria-label="Close window">
             &#x2715;
           </button>
-        )}
+        </div>
       </div>
 
       {/* Menu Bar */}
-      <div className="bg-gray-100/80 py-1 px-3 border-b border-gray-200 select-none flex-shrink-0">
-        {/* Placeholder for a more traditional menu bar. Can be built out with File, Edit, etc. */}
+      <div className="bg-gray-100/80 py-1 px-2 border-b border-gray-200 select-none flex-shrink-0 flex items-center gap-2">
+        {navigation && (
+          <div className="flex items-center gap-0.5">
+            <button
+              onClick={navigation.onBack}
+              disabled={!navigation.canGoBack}
+              className={navigationButtonClass}
+              aria-label="Back"
+              title="Back (Alt+←)">
+              ←
+            </button>
+            <button
+              onClick={navigation.onForward}
+              disabled={!navigation.canGoForward}
+              className={navigationButtonClass}
+              aria-label="Forward"
+              title="Forward (Alt+→)">
+              →
+            </button>
+            <button
+              onClick={navigation.onRegenerate}
+              disabled={!navigation.canRegenerate}
+              className={navigationButtonClass}
+              aria-label="Regenerate this screen"
+              title="Regenerate this screen">
+              ↻
+            </button>
+          </div>
+        )}
+        <MenuBar menus={menus} />
       </div>
 
       {/* Content */}
-      <div className="flex-grow overflow-y-auto">{children}</div>
+      <div className="flex-grow overflow-y-auto bg-white">{children}</div>
+
+      {!isMaximized && (
+        <div
+          className="absolute right-0 bottom-0 w-4 h-4 cursor-se-resize"
+          onPointerDown={startResize}
+          aria-hidden="true"
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {isBuiltInApp} from './appStore';
+import {APP_CAPABILITIES} from './capabilities';
+import {AppCapability, AppDefinition, AppPrompt} from './types';
+
+// A portable, versioned file format for sharing custom apps. A manifest holds
+// everything needed to reinstall an app elsewhere: how it looks on the
+// desktop, the prompt instructions that define it and the capabilities it uses.
+
+export const APP_MANIFEST_VERSION = 1;
+export const APP_MANIFEST_EXTENSION = '.osapp.json';
+
+export interface AppManifest {
+  manifestVersion: number;
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  description: string;
+  prompt: AppPrompt;
+  capabilities: AppCapability[];
+  version?: string;
+  cacheable?: boolean;
+}
+
+const APP_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,79}$/;
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const CLASS_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/i;
+const MAX_NAME_LENGTH = 40;
+const MAX_ICON_LENGTH = 8;
+const MAX_PROMPT_FIELD_LENGTH = 8000;
+const MAX_VERSION_LENGTH = 20;
+const MAX_APP_ID_LENGTH = 80;
+const CUSTOM_APP_ID_PREFIX = 'custom_';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Builds the manifest for an installed app, ready to be written to a file. */
+export function createAppManifest(app: AppDefinition): AppManifest {
+  return {
+    manifestVersion: APP_MANIFEST_VERSION,
+    id: app.id,
+    name: app.name,
+    icon: app.icon,
+    color: app.color,
+    description: app.description ?? '',
+    prompt: app.prompt ?? {behavior: `"${app.name}": ${app.description ?? ''}`},
+    capabilities: app.capabilities ?? [],
+    version: app.version,
+    cacheable: app.cacheable,
+  };
+}
+
+/**
+ * A new id for an app installed as `name`, short enough for a manifest
+ * however long the name is.
+ */
+export function createAppId(name: string, now = Date.now()): string {
+  const suffix = `_${now}`;
+  const maxSlugLength =
+    MAX_APP_ID_LENGTH - CUSTOM_APP_ID_PREFIX.length - suffix.length;
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .substring(0, maxSlugLength);
+  return `${CUSTOM_APP_ID_PREFIX}${slug}${suffix}`;
+}
+
+/** Why `name` cannot be an app's name, or null if it can. */
+export function validateAppName(name: unknown): string | null {
+  return typeof name !== 'string' ||
+    !name.trim() ||
+    name.length > MAX_NAME_LENGTH
+    ? `The name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.`
+    : null;
+}
+
+/** Why `icon` cannot be an app's icon, or null if it can. */
+export function validateAppIcon(icon: unknown): string | null {
+  return typeof icon !== 'string' ||
+    !icon.trim() ||
+    icon.length > MAX_ICON_LENGTH
+    ? 'The icon must be a single emoji.'
+    : null;
+}
+
+/** Suggested file name for an exported manifest. */
+export function getManifestFileName(app: AppDefinition): string {
+  const slug = app.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return `${slug.replace(/^-|-$/g, '') || 'app'}${APP_MANIFEST_EXTENSION}`;
+}
+
+function validatePrompt(prompt: unknown, problems: string[]) {
+  if (!isObject(prompt)) {
+    problems.push('"prompt" must be an object.');
+    return;
+  }
+  if (typeof prompt.behavior !== 'string' || !prompt.behavior.trim()) {
+    problems.push('"prompt.behavior" must be a non-empty string.');
+  }
+  for (const field of ['behavior', 'uiContracts', 'initialScreen']) {
+    const value = prompt[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      problems.push(`"prompt.${field}" must be a string.`);
+    } else if (value.length > MAX_PROMPT_FIELD_LENGTH) {
+      problems.push(
+        `"prompt.${field}" is longer than ${MAX_PROMPT_FIELD_LENGTH} characters.`,
+      );
+    }
+  }
+  const classes = prompt.allowedClasses;
+  if (
+    classes !== undefined &&
+    (!Array.isArray(classes) ||
+      !classes.every(
+        (c) => typeof c === 'string' && CLASS_NAME_PATTERN.test(c),
+      ))
+  ) {
+    problems.push('"prompt.allowedClasses" must be a list of CSS class names.');
+  }
+}
+
+/**
+ * Validates a parsed manifest file and returns the app it describes, or
+ * throws an error listing every problem found.
+ */
+export function parseAppManifest(data: unknown): AppDefinition {
+  if (!isObject(data)) {
+    throw new Error('Not an app manifest: expected a JSON object.');
+  }
+  if (data.manifestVersion !== APP_MANIFEST_VERSION) {
+    throw new Error(
+      `Unsupported app manifest version ${data.manifestVersion} (expected ${APP_MANIFEST_VERSION}).`,
+    );
+  }
+
+  const problems: string[] = [];
+  if (typeof data.id !== 'string' || !APP_ID_PATTERN.test(data.id)) {
+    problems.push(
+      '"id" must be lowercase letters, digits, "_" or "-", at most 80 characters.',
+    );
+  }
+  if (validateAppName(data.name)) {
+    problems.push(
+      `"name" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.`,
+    );
+  }
+  if (validateAppIcon(data.icon)) {
+    problems.push('"icon" must be a single emoji.');
+  }
+  if (typeof data.color !== 'string' || !COLOR_PATTERN.test(data.color)) {
+    problems.push('"color" must be a hex color such as "#e0e0e0".');
+  }
+  if (typeof data.description !== 'string') {
+    problems.push('"description" must be a string.');
+  }
+  validatePrompt(data.prompt, problems);
+  const capabilities = data.capabilities;
+  if (!Array.isArray(capabilities)) {
+    problems.push('"capabilities" must be a list.');
+  } else {
+    for (const capability of capabilities) {
+      if (!APP_CAPABILITIES.includes(capability)) {
+        problems.push(
+          `Unknown capability "${capability}" (expected one of ${APP_CAPABILITIES.join(', ')}).`,
+        );
+      }
+    }
+  }
+
+  if (
+    data.version !== undefined &&
+    (typeof data.version !== 'string' ||
+      data.version.length > MAX_VERSION_LENGTH)
+  ) {
+    problems.push(
+      `"version" must be a string of at most ${MAX_VERSION_LENGTH} characters.`,
+    );
+  }
+  if (data.cacheable !== undefined && typeof data.cacheable !== 'boolean') {
+    problems.push('"cacheable" must be true or false.');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid app manifest:\n- ${problems.join('\n- ')}`);
+  }
+
+  const manifest = data as unknown as AppManifest;
+  return {
+    id: manifest.id,
+    name: manifest.name.trim(),
+    icon: manifest.icon.trim(),
+    color: manifest.color,
+    description: manifest.description,
+    prompt: manifest.prompt,
+    capabilities: manifest.capabilities,
+    version: manifest.version,
+    cacheable: manifest.cacheable,
+  };
+}
+
+/** Throws if `app` cannot be installed alongside `installedApps`. */
+export function assertCanInstall(
+  app: AppDefinition,
+  installedApps: AppDefinition[],
+): void {
+  if (isBuiltInApp(app.id)) {
+    throw new Error(
+      `The id "${app.id}" belongs to a built-in app and cannot be imported.`,
+    );
+  }
+  const existing = installedApps.find((installed) => installed.id === app.id);
+  if (existing) {
+    throw new Error(
+      `An app with the id "${app.id}" is already installed ("${existing.name}"). Uninstall it first to import this version.`,
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Menus shown in a window's menu bar. The OS contributes its own; generated
+// screens can add app menus by declaring them in their HTML:
+//
+//   <menu data-app-menu="File">
+//     <li data-interaction-id="new-file">New</li>
+//     <li data-interaction-id="save-file" data-value-from="editor">Save</li>
+//   </menu>
+//
+// Declarations are hidden on screen. The screen's frame reads them once the
+// screen is complete (see sandboxRuntime.ts), and choosing an item clicks
+// its element there, so the selection arrives like any other interaction,
+// with data-value-from and the live screen state intact.
+
+export interface MenuItem {
+  label: string;
+  /** Shortcut hint shown next to the label. */
+  shortcut?: string;
+  disabled?: boolean;
+  onSelect: () => void;
+}
+
+export interface Menu {
+  label: string;
+  items: MenuItem[];
+}
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {AppDefinition, AppPrompt} from './types';
+
+// Per-app prompt modules. Only the active app's module is composed with the
+// OS core prompt (see getSystemPrompt), so a click in Calculator does not pay
+// for the Web browser's or AI Studio's instructions.
+
+const desktopPrompt: AppPrompt = {
+  behavior: `"Desktop": Details desktop system specifications in a clean, professional way. Do not include extra content that replicates the home app space.`,
+};
+
+// Shared by the apps backed by the OS's virtual filesystem.
+const FILESYSTEM_CONTRACT = `Files are real: show only those in the "Filesystem" section, and never invent others. The OS performs file operations itself when the user triggers these interaction ids, then reports the outcome in "Filesystem Operation Result":
+        - \`fs_open_file\`: \`data-interaction-value\` is the file's absolute path. The file's content is reported back.
+        - \`fs_save_file\`: \`data-value-from='{"path": "<path input id>", "content": "<textarea id>"}'\`.
+        - \`fs_create_folder\`: \`data-value-from\` an input holding the new folder's absolute path.
+        - \`fs_delete_file\`: \`data-interaction-value\` is the absolute path; moves it to the Trash.
+        - \`fs_restore_file\` and \`fs_delete_permanently\`: \`data-interaction-value\` is the item's path in /Trash.
+        - \`fs_empty_trash\`: deletes everything in the Trash.`;
+
+const documentsPrompt: AppPrompt = {
+  behavior: `"Documents": A file manager for the user's documents under /Documents. Opening a file shows its content; folders can be created and files deleted (moved to the Trash).`,
+  uiContracts: `${FILESYSTEM_CONTRACT}
+    - Show each file with an "Open" (\`fs_open_file\`) and "Delete" (\`fs_delete_file\`) action, and offer a "New Folder" form (\`fs_create_folder\`).`,
+};
+
+const notepadPrompt: AppPrompt = {
+  behavior: `"Notepad": Has a writable notepad, edit functionalities and saving functionalities here.
+    - When a user saves, generate a "file saved" confirmation. If they edit text, reflect that change in the textarea.
+    - When a file is opened, put its exact content in the textarea and its path in the path input.`,
+  uiContracts: `${FILESYSTEM_CONTRACT}
+    - The editor must have an \`<input type="text" id="notepad_file_path">\` holding the file's absolute path (default "/Documents/Untitled.txt") and a \`<textarea id="notepad_text">\`.
+    - The "Save" button uses \`data-interaction-id="fs_save_file"\` and \`data-value-from='{"path": "notepad_file_path", "content": "notepad_text"}'\`.
+    - Offer the existing text files as an "Open" list using \`fs_open_file\`.`,
+};
+
+const settingsPrompt: AppPrompt = {
+  behavior: `"Settings": This is a regular app generated by you, not the OS-level parameters panel. It has usual settings like display, sound, network, privacy, wallpaper, etc.`,
+};
+
+const trashPrompt: AppPrompt = {
+  behavior: `"Trash Bin": Lists the files and folders deleted from Documents, with where each was deleted from. They can be restored or deleted permanently.`,
+  uiContracts: `${FILESYSTEM_CONTRACT}
+    - Show each item with "Restore" (\`fs_restore_file\`) and "Delete Permanently" (\`fs_delete_permanently\`) actions, and an "Empty Trash" button (\`fs_empty_trash\`) when the Trash is not empty.`,
+};
+
+const webBrowserPrompt: AppPrompt = {
+  behavior: `"Web": Simulates a hyper-realistic, AI-powered web browser. You are the rendering engine. It has two primary modes:
+    - **Your Goal:** To act as a dynamic, AI-powered learning and exploration tool that generates web content in real-time based on the user's session.
+    - **Initial State (on app open):** Display a "New Tab" page. This should include the navigation bar and a clean content area, perhaps with a large search input in the center and some example exploratory topics.
+    - **Mode 1: Exploratory Learning (Default):**
+        - This is the primary mode. If the user's input is a topic, question, or concept (e.g., "History of the Roman Empire", "How does photosynthesis work?"), your goal is to generate a custom, well-structured, and informative webpage that acts as a learning resource.
+        - The page should be easy to read, breaking down complex topics into digestible sections with clear headings.
+        - **CRITICAL:** The generated page MUST contain interactive hyperlinks (\`<a>\` tags with \`data-interaction-id="follow-link"\` and a relevant \`data-interaction-value\`) that allow the user to dive deeper into related sub-topics. For example, a page about the Roman Empire might have links for "Julius Caesar", "The Colosseum", and "Fall of the Western Roman Empire". Think of yourself as creating an interactive, ever-expanding encyclopedia tailored to the user's session.
+    - **Mode 2: URL Simulation (When a URL is detected):**
+        - If the user's input in the search bar appears to be a specific URL (e.g., 'google.com', 'https://www.nasa.gov'), switch to this mode.
+        - In this mode, generate a realistic mockup of that website's homepage. Use your real-time information access (Google Search) to make the content as accurate and up-to-date as possible.
+    - **Session Context:** For both modes, it is crucial to use the provided interaction history. Each user action (a search query or a link click) is a step in their browsing session. The content you generate next should be a logical continuation of their journey.`,
+  uiContracts: `Your HTML response MUST always include a navigation bar at the top and the content area below it.
+    1.  **Navigation Bar:** Use the class \`browser-nav\` for the container. It must contain:
+        - An \`<input type="text" id="url_search_input" class="browser-input" data-interaction-id="navigate-to-url" data-interaction-on="keydown:Enter" placeholder="Ask a question or enter a URL...">\`, so pressing Enter navigates.
+        - A button with \`class="browser-button"\`, \`data-interaction-id="navigate-to-url"\`, and \`data-value-from="url_search_input"\`. Use a "Go" or arrow (→) icon as text.
+    2.  **Page Content:** The area below the navigation bar. Wrap this in a \`div\` with class \`browser-content\`.`,
+  allowedClasses: [
+    'browser-nav',
+    'browser-input',
+    'browser-button',
+    'browser-content',
+  ],
+};
+
+const calculatorPrompt: AppPrompt = {
+  behavior: `"Calculator": Has a calculator widget with a rectangular layout.`,
+};
+
+const travelPrompt: AppPrompt = {
+  behavior: `"Travel": Starts with various travel planning and navigation options including Google Maps.`,
+};
+
+const shoppingPrompt: AppPrompt = {
+  behavior: `"Shopping": Has a shopping cart with an example list of products.`,
+};
+
+const gamesPrompt: AppPrompt = {
+  behavior: `"Games": Has a menu of games that are playable. The games should be simple, implemented with HTML, CSS, and self-contained JavaScript within a single <script> tag. Example games: Snake, Tic-Tac-Toe.`,
+};
+
+const terminalPrompt: AppPrompt = {
+  behavior: `"Terminal": Emulates a command-line interface. Await user commands and respond with text output.
+    - The filesystem is real: commands like \`ls\`, \`cat\` and \`tree\` must reflect the "Filesystem" section exactly.
+    - Maintain a history of commands within the visible output. The latest interaction will be the user's typed command. Your response should be the command's output, appended to the previous content, followed by a new input prompt.`,
+  allowedClasses: [
+    'terminal',
+    'terminal-output',
+    'terminal-line',
+    'terminal-form',
+    'terminal-prompt',
+    'terminal-input',
+  ],
+};
+
+const installerPrompt: AppPrompt = {
+  behavior: `"App Installer": Provides a form to define and install a new application onto the desktop.`,
+  uiContracts: `When the user opens the "App Installer", you must generate a form. This form should contain:
+    - An \`<input type="text" id="new_app_name_input">\` for the app's name.
+    - A \`<textarea id="new_app_description_input">\` for the app's description.
+    - An optional \`<textarea id="new_app_instructions_input">\` for detailed instructions on how the app should behave and look.
+    - An "Install App" button with \`data-interaction-id="install_new_app_action"\` and \`data-value-from='{"appName": "new_app_name_input", "appDescription": "new_app_description_input", "appInstructions": "new_app_instructions_input"}'\`. The frontend uses this to collect the form data.
+    - An "Import App…" button with \`data-interaction-id="import_app_action"\`. The frontend opens a file picker for an app manifest.
+    - A list of the user-installed apps from the "Installed Apps" section, each with an "Export" button with \`data-interaction-id="export_app_action"\` and \`data-interaction-value\` set to the app's id. The frontend saves the app as a manifest file.`,
+};
+
+const taskHandoffPrompt: AppPrompt = {
+  behavior: `"Task Handoff": This is a powerful, autonomous agent designed for complex task execution. This app is stateless; treat every task submission as a brand new request.
+    - **Initial State (on app open):** The default view. Present a UI prompting the user for a task. Do not show results from any previous tasks.
+    - **Autonomous Execution (after task submission):** CRITICAL: Once a task is submitted, you must generate a SINGLE, UNINTERRUPTED, and COMPLETE response that executes the entire task from start to finish. DO NOT stop until all steps are finished. The process is as follows:
+        1.  **Acknowledge and Plan:** Start by acknowledging the user's request. Then, formulate and display a complete, step-by-step execution plan.
+        2.  **Execute Continuously:** Immediately, without any pause, user input, or further requests, begin executing the plan. For each step, generate HTML that clearly shows the action being taken and the results in a live execution log format. Example: \`<h3>Step 1: Initial Research...</h3><p>Gathering sources on AI in software development...</p>\`.
+        3.  **Finish the Job:** You are REQUIRED to execute *all* steps of your plan. Stopping prematurely is a failure. Continue generating the execution log until the final step is complete.
+        4.  **Provide a Conclusion:** After the final step, provide a concluding summary of the task's outcome.
+        5.  **No User Interaction:** The entire execution phase MUST be fully automated. Do not generate any buttons, forms, or prompts asking for user input during the execution.
+        6.  **Web Search:** Utilize Google Search for tasks requiring current information. The system will automatically add a "Sources" section if you use it.`,
+  uiContracts: `The initial UI must include a \`<textarea id="task_description_input" placeholder="e.g., 'Research the impact of AI on modern software development.'"></textarea>\` and a submit button with \`data-interaction-id="submit_task_description"\` and \`data-value-from="task_description_input"\`.`,
+};
+
+const aiStudioPrompt: AppPrompt = {
+  behavior: `"AI Studio": A suite of advanced AI tools.
+    - **Hub (Initial State):** A dashboard of cards for "Chat", "Vision", and "Voice".
+    - **Chat Mode:** A standard chat interface. Use \`chat-bubble-user\` (right aligned, blue) and \`chat-bubble-ai\` (left aligned, gray) classes for messages.
+    - **Vision Mode:** A UI for generating media.
+    - **Voice Mode:** A clean UI for real-time voice interaction: pick a voice and a model, then start a session. While a session runs, the OS shows its own panel with the live transcript in place of your screen.`,
+  uiContracts: `- Hub: "Chat" button with \`data-interaction-id="open-ai-chat"\`, "Vision" (Image/Video Gen) button with \`data-interaction-id="open-ai-vision"\`, "Voice" (Live API) button with \`data-interaction-id="open-ai-voice"\`.
+    - Vision Mode must include:
+        - A \`<textarea id="vision_prompt" class="llm-textarea" placeholder="Describe the image or video you want to create..."></textarea>\`.
+        - A \`<select id="vision_aspect_ratio" class="llm-input"><option value="1:1">Square (1:1)</option><option value="16:9">Landscape (16:9)</option><option value="9:16">Portrait (9:16)</option></select>\`.
+        - Button "Generate Image" with \`data-interaction-id="generate_imagen_action"\` and \`data-value-from='{"prompt": "vision_prompt", "aspectRatio": "vision_aspect_ratio"}'\`.
+        - Button "Generate Video" with \`data-interaction-id="generate_veo_action"\` and \`data-value-from='{"prompt": "vision_prompt", "aspectRatio": "vision_aspect_ratio"}'\`.
+    - Voice Mode must include:
+        - A \`<select id="live_voice" class="llm-input">\` with the voices Zephyr, Puck, Charon, Kore, Fenrir, Aoede, Leda and Orus (option values are the names).
+        - A \`<select id="live_model" class="llm-input"><option value="gemini-2.5-flash-native-audio-preview-09-2025">Native audio</option><option value="gemini-live-2.5-flash-preview">Live 2.5 Flash</option></select>\`.
+        - A large "Start Live Session" button with \`data-interaction-id="start-live-session"\` and \`data-value-from='{"voice": "live_voice", "model": "live_model"}'\`.`,
+  allowedClasses: ['chat-bubble-user', 'chat-bubble-ai'],
+};
+
+export const BUILT_IN_APP_PROMPTS: Record<string, AppPrompt> = {
+  my_computer: desktopPrompt,
+  ai_studio_app: aiStudioPrompt,
+  documents: documentsPrompt,
+  notepad_app: notepadPrompt,
+  settings_app: settingsPrompt,
+  trash_bin: trashPrompt,
+  web_browser_app: webBrowserPrompt,
+  calculator_app: calculatorPrompt,
+  travel_app: travelPrompt,
+  shopping_app: shoppingPrompt,
+  gaming_app: gamesPrompt,
+  terminal_app: terminalPrompt,
+  installer_app: installerPrompt,
+  task_handoff_app: taskHandoffPrompt,
+};
+
+/** Prompt module for an app installed by the user, built from its install form. */
+export function createCustomAppPrompt(
+  name: string,
+  description: string,
+  instructions?: string,
+): AppPrompt {
+  let behavior = `"${name}": A user-installed app. ${description || 'Infer its purpose from its name.'}`;
+  if (instructions?.trim()) {
+    behavior += `\n    - **Instructions from the app's author:** ${instructions.trim()}`;
+  }
+  return {behavior};
+}
+
+/** The prompt module for `app`: its own, a built-in one, or one derived from its name and description. */
+export function getAppPrompt(app: AppDefinition): AppPrompt {
+  return (
+    app.prompt ??
+    BUILT_IN_APP_PROMPTS[app.id] ??
+    createCustomAppPrompt(app.name, app.description ?? '')
+  );
+}
+
+/** Renders an app's prompt module as the "Active App" section of the system prompt. */
+export function renderAppPrompt(app: AppDefinition): string {
+  const prompt = getAppPrompt(app);
+  let section = `- ${prompt.behavior}`;
+  if (prompt.initialScreen) {
+    section += `\n    - **Initial Screen (on app open):** ${prompt.initialScreen}`;
+  }
+  if (prompt.uiContracts) {
+    section += `\n    - **Required UI Structure:** ${prompt.uiContracts}`;
+  }
+  if (prompt.allowedClasses?.length) {
+    section += `\n    - **App classes:** In addition to the shared classes, use these: ${prompt.allowedClasses.map((c) => `\`${c}\``).join(', ')}.`;
+  }
+  return section;
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {APP_DEFINITIONS_CONFIG} from './constants';
+import {AppDefinition} from './types';
+
+// Persists the desktop: installed apps and the order of all icons. Built-in
+// apps always come from APP_DEFINITIONS_CONFIG; only their name and icon can
+// be customised, and they cannot be uninstalled.
+
+const DESKTOP_STORAGE_KEY = 'os.desktop.v1';
+
+interface StoredDesktop {
+  version: 1;
+  /** Every app on the desktop, in display order. */
+  apps: AppDefinition[];
+}
+
+export function isBuiltInApp(appId: string): boolean {
+  return APP_DEFINITIONS_CONFIG.some((app) => app.id === appId);
+}
+
+function isValidApp(app: unknown): app is AppDefinition {
+  const candidate = app as AppDefinition;
+  return (
+    !!candidate &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.icon === 'string' &&
+    typeof candidate.color === 'string'
+  );
+}
+
+/**
+ * Restores the saved desktop. Built-ins missing from the saved layout (e.g.
+ * added in a newer version) are appended; invalid entries are dropped.
+ */
+export function loadDesktopApps(): AppDefinition[] {
+  let stored: StoredDesktop | null = null;
+  try {
+    const raw = localStorage.getItem(DESKTOP_STORAGE_KEY);
+    stored = raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.error('Failed to restore the desktop, using defaults:', e);
+  }
+  if (!stored || stored.version !== 1 || !Array.isArray(stored.apps)) {
+    return APP_DEFINITIONS_CONFIG;
+  }
+
+  const apps: AppDefinition[] = [];
+  const seen = new Set<string>();
+  for (const app of stored.apps) {
+    if (!isValidApp(app) || seen.has(app.id)) continue;
+    const builtIn = APP_DEFINITIONS_CONFIG.find((def) => def.id === app.id);
+    apps.push(builtIn ? {...builtIn, name: app.name, icon: app.icon} : app);
+    seen.add(app.id);
+  }
+  for (const builtIn of APP_DEFINITIONS_CONFIG) {
+    if (!seen.has(builtIn.id)) apps.push(builtIn);
+  }
+  return apps;
+}
+
+export function saveDesktopApps(apps: AppDefinition[]): void {
+  const stored: StoredDesktop = {version: 1, apps};
+  try {
+    localStorage.setItem(DESKTOP_STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.error('Failed to save the desktop:', e);
+  }
+}
+
+/** Returns `apps` with `movedId` moved into the position of `targetId`. */
+export function moveApp(
+  apps: AppDefinition[],
+  movedId: string,
+  targetId: string,
+): AppDefinition[] {
+  const from = apps.findIndex((app) => app.id === movedId);
+  const to = apps.findIndex((app) => app.id === targetId);
+  if (from === -1 || to === -1 || from === to) return apps;
+  const reordered = [...apps];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+}
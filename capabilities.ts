@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {FILE_ACTION_IDS} from './fileActions';
+import {ModelTool} from './modelProvider';
+import {AppCapability, AppDefinition, InteractionData} from './types';
+
+// Apps declare the OS features they use in `AppDefinition.capabilities`. A
+// declared capability still needs the user's consent, asked for the first
+// time the app uses it and remembered per app in localStorage.
+
+export const APP_CAPABILITIES: AppCapability[] = [
+  'web_search',
+  'image_generation',
+  'video_generation',
+  'microphone',
+  'persistent_storage',
+];
+
+export const CAPABILITY_INFO: Record<
+  AppCapability,
+  {label: string; description: string}
+> = {
+  web_search: {
+    label: 'Web search',
+    description: 'search Google to ground its answers in current information',
+  },
+  image_generation: {
+    label: 'Image generation',
+    description: 'generate images from your prompts',
+  },
+  video_generation: {
+    label: 'Video generation',
+    description: 'generate videos from your prompts (this can be costly)',
+  },
+  microphone: {
+    label: 'Microphone',
+    description: 'listen to your microphone for live voice conversations',
+  },
+  persistent_storage: {
+    label: 'Persistent storage',
+    description: 'read and save files that persist across sessions',
+  },
+};
+
+/** Special actions handled by the OS and the capability each one needs. */
+export const SPECIAL_ACTION_CAPABILITIES: Record<string, AppCapability> = {
+  generate_imagen_action: 'image_generation',
+  generate_veo_action: 'video_generation',
+  'start-live-session': 'microphone',
+  ...Object.fromEntries(
+    FILE_ACTION_IDS.map((id) => [id, 'persistent_storage' as AppCapability]),
+  ),
+};
+
+/** Model tools backing each capability, where the model itself uses it. */
+const CAPABILITY_TOOLS: Partial<Record<AppCapability, ModelTool>> = {
+  web_search: 'google_search',
+};
+
+/** Capabilities that feed every model request: tools, and the file listing in the prompt. */
+const REQUEST_CAPABILITIES: AppCapability[] = [
+  ...(Object.keys(CAPABILITY_TOOLS) as AppCapability[]),
+  'persistent_storage',
+];
+
+export type PermissionState = 'granted' | 'denied' | 'prompt';
+
+type PermissionPrompter = (
+  app: AppDefinition,
+  capability: AppCapability,
+) => Promise<boolean>;
+
+const PERMISSIONS_STORAGE_KEY = 'os.permissions.v1';
+
+let decisions: Record<string, Partial<Record<AppCapability, boolean>>> | null =
+  null;
+const listeners = new Set<() => void>();
+
+const defaultPrompter: PermissionPrompter = async (app, capability) =>
+  window.confirm(
+    `Allow "${app.name}" to ${CAPABILITY_INFO[capability].description}?`,
+  );
+let prompter: PermissionPrompter = defaultPrompter;
+
+function getDecisions() {
+  if (!decisions) {
+    try {
+      decisions = JSON.parse(
+        localStorage.getItem(PERMISSIONS_STORAGE_KEY) ?? '{}',
+      );
+    } catch (e) {
+      console.error('Failed to read app permissions:', e);
+    }
+    decisions ??= {};
+  }
+  return decisions!;
+}
+
+function saveDecisions() {
+  try {
+    localStorage.setItem(PERMISSIONS_STORAGE_KEY, JSON.stringify(decisions));
+  } catch (e) {
+    console.error('Failed to save app permissions:', e);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function declaresCapability(
+  app: AppDefinition | null | undefined,
+  capability: AppCapability,
+): boolean {
+  return app?.capabilities?.includes(capability) ?? false;
+}
+
+/** Undeclared capabilities are always denied. */
+export function getPermission(
+  app: AppDefinition,
+  capability: AppCapability,
+): PermissionState {
+  if (!declaresCapability(app, capability)) return 'denied';
+  const decision = getDecisions()[app.id]?.[capability];
+  return decision === undefined ? 'prompt' : decision ? 'granted' : 'denied';
+}
+
+export function setPermission(
+  appId: string,
+  capability: AppCapability,
+  granted: boolean,
+): void {
+  const all = getDecisions();
+  all[appId] = {...all[appId], [capability]: granted};
+  saveDecisions();
+}
+
+/** Forgets every decision for an app, so it asks again on next use. */
+export function resetPermissions(appId: string): void {
+  delete getDecisions()[appId];
+  saveDecisions();
+}
+
+/** Decisions made so far, by app id. */
+export function getPermissionDecisions(): Record<
+  string,
+  Partial<Record<AppCapability, boolean>>
+> {
+  return getDecisions();
+}
+
+/**
+ * Resolves to whether `app` may use `capability` now, asking the user if this
+ * is the first time. The answer is remembered.
+ */
+export async function requestCapability(
+  app: AppDefinition,
+  capability: AppCapability,
+): Promise<boolean> {
+  const state = getPermission(app, capability);
+  if (state !== 'prompt') return state === 'granted';
+  const granted = await prompter(app, capability);
+  setPermission(app.id, capability, granted);
+  return granted;
+}
+
+/** Replaces the default `window.confirm` prompt with the OS's own dialog. */
+export function setPermissionPrompter(next: PermissionPrompter | null): void {
+  prompter = next ?? defaultPrompter;
+}
+
+/** Calls `listener` whenever a permission changes. Returns an unsubscribe function. */
+export function subscribeToPermissions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Model tools for a request: those backing the app's granted capabilities.
+ * Tools are left off an app's opening screen, which never needs them.
+ */
+export function getToolsForInteraction(
+  app: AppDefinition | null | undefined,
+  interaction: InteractionData,
+): ModelTool[] {
+  if (!app || interaction.type === 'app_open') return [];
+  return (app.capabilities ?? []).flatMap((capability) => {
+    const tool = CAPABILITY_TOOLS[capability];
+    return tool && getPermission(app, capability) === 'granted' ? [tool] : [];
+  });
+}
+
+/** Capabilities the next model request for `app` would use but the user has not been asked about yet. */
+export function getPendingRequestCapabilities(
+  app: AppDefinition,
+): AppCapability[] {
+  return (app.capabilities ?? []).filter(
+    (capability) =>
+      REQUEST_CAPABILITIES.includes(capability) &&
+      getPermission(app, capability) === 'prompt',
+  );
+}
@@ -3,91 +3,109 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 /* tslint:disable */
+import {renderAppPrompt} from './appPrompts';
+import {RetryOptions} from './retry';
 import {AppDefinition} from './types';
 
 export const APP_DEFINITIONS_CONFIG: AppDefinition[] = [
   {id: 'my_computer', name: 'Desktop', icon: '💻', color: '#e3f2fd'},
-  {id: 'ai_studio_app', name: 'AI Studio', icon: '✨', color: '#f3e5f5'},
-  {id: 'documents', name: 'Documents', icon: '📁', color: '#f1f8e9'},
-  {id: 'notepad_app', name: 'Notepad', icon: '📝', color: '#fffde7'},
+  {
+    id: 'ai_studio_app',
+    name: 'AI Studio',
+    icon: '✨',
+    color: '#f3e5f5',
+    capabilities: ['image_generation', 'video_generation', 'microphone'],
+  },
+  {
+    id: 'documents',
+    name: 'Documents',
+    icon: '📁',
+    color: '#f1f8e9',
+    capabilities: ['persistent_storage'],
+  },
+  {
+    id: 'notepad_app',
+    name: 'Notepad',
+    icon: '📝',
+    color: '#fffde7',
+    capabilities: ['persistent_storage'],
+  },
   {id: 'settings_app', name: 'Settings', icon: '⚙️', color: '#e7f3ff'}, // Reverted from 'parameters_app' and 'Parameters'
-  {id: 'trash_bin', name: 'Trash Bin', icon: '🗑️', color: '#ffebee'},
-  {id: 'web_browser_app', name: 'Web', icon: '🌐', color: '#e0f7fa'},
+  {
+    id: 'trash_bin',
+    name: 'Trash Bin',
+    icon: '🗑️',
+    color: '#ffebee',
+    capabilities: ['persistent_storage'],
+  },
+  {
+    id: 'web_browser_app',
+    name: 'Web',
+    icon: '🌐',
+    color: '#e0f7fa',
+    capabilities: ['web_search'],
+  },
   {id: 'calculator_app', name: 'Calculator', icon: '🧮', color: '#f5f5f5'},
   {id: 'travel_app', name: 'Travel', icon: '✈️', color: '#e8f5e9'},
   {id: 'shopping_app', name: 'Shopping', icon: '🛒', color: '#fff3e0'},
   {id: 'gaming_app', name: 'Games', icon: '🎮', color: '#f3e5f5'},
-  {id: 'terminal_app', name: 'Terminal', icon: '⌨️', color: '#e0e0e0'},
+  {
+    id: 'terminal_app',
+    name: 'Terminal',
+    icon: '⌨️',
+    color: '#e0e0e0',
+    capabilities: ['persistent_storage'],
+  },
   {id: 'installer_app', name: 'App Installer', icon: '📦', color: '#d7ccc8'},
-  {id: 'task_handoff_app', name: 'Task Handoff', icon: '🚀', color: '#eef2f9'},
+  {
+    id: 'task_handoff_app',
+    name: 'Task Handoff',
+    icon: '🚀',
+    color: '#eef2f9',
+    capabilities: ['web_search'],
+    // Each handoff starts from scratch.
+    cacheable: false,
+  },
 ];
 
 export const MAX_HISTORY_LENGTH = 10;
 
-export const getSystemPrompt = (maxHistory: number): string => `
+/** Token budget for the compacted previous screen included in each prompt. */
+export const PREVIOUS_CONTENT_TOKEN_BUDGET = 1500;
+
+/** Retry policy for transient model API errors (rate limits, 5xx, network). */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+  backoffFactor: 2,
+};
+
+/** Pause between interactions when replaying a recorded session. */
+export const REPLAY_STEP_DELAY_MS = 600;
+
+export const getSystemPrompt = (
+  maxHistory: number,
+  activeApp: AppDefinition | null,
+): string => `
 **Role:**
 You are an AI that functions as the operating system logic for a desktop simulation.
 Your goal is to generate HTML content for the *main content area* of a window based on user interactions on a GUI.
 
 **Instructions**
-0.  **Available apps:** The computer has several apps that can be opened from the home screen.
-    - "Desktop": Details desktop system specifications in a clean, professional way. Do not include extra content that replicates the home app space.
-    - "Documents": Has files, photos.
-    - "Notepad": Has a writable notepad, edit functionalities and saving functionalities here.
-    - "Settings": This is a regular app generated by you, not the OS-level parameters panel. It has usual settings like display, sound, network, privacy, wallpaper, etc.
-    - "Trash Bin": Has example files that can be deleted.
-    - "Web": Simulates a hyper-realistic, AI-powered web browser. You are the rendering engine. It has two primary modes:
-        - **Your Goal:** To act as a dynamic, AI-powered learning and exploration tool that generates web content in real-time based on the user's session.
-        - **Required UI Structure:** Your HTML response MUST always include a navigation bar at the top and the content area below it.
-            1.  **Navigation Bar:** Use the class \`browser-nav\` for the container. It must contain:
-                - An \`<input type="text" id="url_search_input" class="browser-input" placeholder="Ask a question or enter a URL...">\`.
-                - A button with \`class="browser-button"\`, \`data-interaction-id="navigate-to-url"\`, and \`data-value-from="url_search_input"\`. Use a "Go" or arrow (→) icon as text.
-            2.  **Page Content:** The area below the navigation bar. Wrap this in a \`div\` with class \`browser-content\`.
-        - **Initial State (on app open):** Display a "New Tab" page. This should include the navigation bar and a clean content area, perhaps with a large search input in the center and some example exploratory topics.
-        - **Mode 1: Exploratory Learning (Default):**
-            - This is the primary mode. If the user's input is a topic, question, or concept (e.g., "History of the Roman Empire", "How does photosynthesis work?"), your goal is to generate a custom, well-structured, and informative webpage that acts as a learning resource.
-            - The page should be easy to read, breaking down complex topics into digestible sections with clear headings.
-            - **CRITICAL:** The generated page MUST contain interactive hyperlinks (\`<a>\` tags with \`data-interaction-id="follow-link"\` and a relevant \`data-interaction-value\`) that allow the user to dive deeper into related sub-topics. For example, a page about the Roman Empire might have links for "Julius Caesar", "The Colosseum", and "Fall of the Western Roman Empire". Think of yourself as creating an interactive, ever-expanding encyclopedia tailored to the user's session.
-        - **Mode 2: URL Simulation (When a URL is detected):**
-            - If the user's input in the search bar appears to be a specific URL (e.g., 'google.com', 'https://www.nasa.gov'), switch to this mode.
-            - In this mode, generate a realistic mockup of that website's homepage. Use your real-time information access (Google Search) to make the content as accurate and up-to-date as possible.
-        - **Session Context:** For both modes, it is crucial to use the provided interaction history. Each user action (a search query or a link click) is a step in their browsing session. The content you generate next should be a logical continuation of their journey.
-    - "Calculator": Has a calculator widget with a rectangular layout.
-    - "Travel": Starts with various travel planning and navigation options including Google Maps.
-    - "Shopping": Has a shopping cart with an example list of products.
-    - "Games": Has a menu of games that are playable. The games should be simple, implemented with HTML, CSS, and self-contained JavaScript within a single <script> tag. Example games: Snake, Tic-Tac-Toe.
-    - "Terminal": Emulates a command-line interface. Await user commands and respond with text output.
-    - "App Installer": Provides a form to define and install a new application onto the desktop.
-    - "Task Handoff": This is a powerful, autonomous agent designed for complex task execution. This app is stateless; treat every task submission as a brand new request.
-        - **Initial State (on app open):** The default view. Present a UI prompting the user for a task. The UI must include a \`<textarea id="task_description_input" placeholder="e.g., 'Research the impact of AI on modern software development.'"></textarea>\` and a submit button with \`data-interaction-id="submit_task_description"\` and \`data-value-from="task_description_input"\`. Do not show results from any previous tasks.
-        - **Autonomous Execution (after task submission):** CRITICAL: Once a task is submitted, you must generate a SINGLE, UNINTERRUPTED, and COMPLETE response that executes the entire task from start to finish. DO NOT stop until all steps are finished. The process is as follows:
-            1.  **Acknowledge and Plan:** Start by acknowledging the user's request. Then, formulate and display a complete, step-by-step execution plan.
-            2.  **Execute Continuously:** Immediately, without any pause, user input, or further requests, begin executing the plan. For each step, generate HTML that clearly shows the action being taken and the results in a live execution log format. Example: \`<h3>Step 1: Initial Research...</h3><p>Gathering sources on AI in software development...</p>\`.
-            3.  **Finish the Job:** You are REQUIRED to execute *all* steps of your plan. Stopping prematurely is a failure. Continue generating the execution log until the final step is complete.
-            4.  **Provide a Conclusion:** After the final step, provide a concluding summary of the task's outcome.
-            5.  **No User Interaction:** The entire execution phase MUST be fully automated. Do not generate any buttons, forms, or prompts asking for user input during the execution.
-            6.  **Web Search:** Utilize Google Search for tasks requiring current information. The system will automatically add a "Sources" section if you use it.
-    - "AI Studio": A suite of advanced AI tools.
-        - **Hub (Initial State):** A dashboard of cards for "Chat", "Vision", and "Voice".
-            - "Chat": Button with \`data-interaction-id="open-ai-chat"\`.
-            - "Vision" (Image/Video Gen): Button with \`data-interaction-id="open-ai-vision"\`.
-            - "Voice" (Live API): Button with \`data-interaction-id="open-ai-voice"\`.
-        - **Chat Mode:** A standard chat interface. Use \`chat-bubble-user\` (right aligned, blue) and \`chat-bubble-ai\` (left aligned, gray) classes for messages.
-        - **Vision Mode:** A UI for generating media. Must include:
-            - A \`<textarea id="vision_prompt" class="llm-textarea" placeholder="Describe the image or video you want to create..."></textarea>\`.
-            - A \`<select id="vision_aspect_ratio" class="llm-input"><option value="1:1">Square (1:1)</option><option value="16:9">Landscape (16:9)</option><option value="9:16">Portrait (9:16)</option></select>\`.
-            - Button "Generate Image" with \`data-interaction-id="generate_imagen_action"\` and \`data-value-from='{"prompt": "vision_prompt", "aspectRatio": "vision_aspect_ratio"}'\`.
-            - Button "Generate Video" with \`data-interaction-id="generate_veo_action"\` and \`data-value-from='{"prompt": "vision_prompt", "aspectRatio": "vision_aspect_ratio"}'\`.
-        - **Voice Mode:** A clean UI for real-time voice interaction.
-            - Display a large "Start Live Session" button with \`data-interaction-id="start-live-session"\`.
-            - If the session is active (the previous interaction was start-live-session), display a "Listening..." visualizer and a "Stop Session" button with \`data-interaction-id="stop-live-session"\`.
+0.  **Active App:** The user is interacting with the app below. Follow its behavior and UI requirements exactly.
+    ${activeApp ? renderAppPrompt(activeApp) : '- No app is open; the user is on the desktop.'}
 
 1.  **Always** generate content as self-contained HTML that fits within a 750x500 pixel content area.
-    - Your entire response will be placed inside a \`<div>\`. Do NOT include \`<html>\`, \`<head>\`, or \`<body>\` tags.
+    - The HTML section of your response will be placed inside a \`<div>\`. Do NOT include \`<html>\`, \`<head>\`, or \`<body>\` tags.
     - Use the provided TailwindCSS utility classes for styling. Do NOT use inline styles unless absolutely necessary.
-    - Available classes: \`llm-button\`, \`llm-text\`, \`llm-title\`, \`llm-input\`, \`llm-textarea\`, \`llm-container\`, \`llm-row\`, \`llm-label\`, and all standard TailwindCSS classes.
-    - For the Terminal, use these classes: \`terminal\`, \`terminal-output\`, \`terminal-line\`, \`terminal-form\`, \`terminal-prompt\`, \`terminal-input\`.
-    - For the Web Browser, use these classes: \`browser-nav\`, \`browser-input\`, \`browser-button\`, \`browser-content\`.
+    - Available classes: \`llm-button\`, \`llm-text\`, \`llm-title\`, \`llm-input\`, \`llm-textarea\`, \`llm-container\`, \`llm-row\`, \`llm-label\`, and all standard TailwindCSS classes, plus any app classes listed above.
+    - Inline \`<script>\` tags run once the screen is complete, in a sandbox: they cannot load external scripts, make network requests, use storage or reach anything outside the content area. Images, video and fonts only load from \`data:\` and \`blob:\` URLs, so never reference images on the web; use emoji, inline SVG or CSS instead.
+    - **Scripting API:** Scripts can use \`window.os\` (version \`os.version\`, currently 1). Every method returns a Promise that rejects with an Error if the call is not allowed:
+      - \`os.storage.get(key)\`, \`os.storage.set(key, value)\`, \`os.storage.remove(key)\`, \`os.storage.keys()\`: JSON values kept for this app across sessions (e.g., high scores, settings), up to 100,000 characters in total.
+      - \`os.files.read(path)\`, \`os.files.write(path, text)\`, \`os.files.list(dir)\`: the user's text files; relative paths are inside /Documents. Only for apps with the "persistent_storage" capability.
+      - \`os.openApp(appId)\` opens an installed app, only from a click handler; \`os.notify(message)\` shows a short notification. Each is limited to a few calls a minute.
+      - \`os.emit({id, type, value})\` sends an interaction to you as if the user had clicked an element with those attributes; each one is a model call, so it is limited to a few a minute per app: call it only for rare events, e.g., when a game ends, never from a timer or on every change.
 
 2.  **Interaction:** Make elements interactive by adding \`data-interaction-id\` and other \`data-*\` attributes. The frontend will capture clicks on these elements and send the data back to you.
     - \`data-interaction-id\`: A **unique, descriptive, kebab-case string** for the action (e.g., 'open-document-alpha', 'delete-file-button', 'submit-search-query').
@@ -96,19 +114,30 @@ Your goal is to generate HTML content for the *main content area* of a window ba
     - To get values from inputs, set \`data-value-from\` on the interactive element (e.g., a button).
       - For a single input, use the input's ID: \`data-value-from="element_id"\`.
       - For multiple inputs, use a JSON string mapping keys to element IDs: \`data-value-from='{"key1": "id1", "key2": "id2"}'\`.
+      - A \`<form>\`'s ID collects all its named fields as a JSON object; a radio group's \`name\` gives the checked option.
+      - Values are typed: checkboxes give true/false (checkboxes sharing a name give the list of checked values), number inputs give numbers, multi-selects give arrays.
+      - File inputs (\`<input type="file" id="photo_input" accept="image/*">\`) give the picked file names, and text and image files (up to 2 MB, at most 4) are attached to the request, so you receive their contents after this prompt. Use them to build the screen, e.g. summarize a document or describe a photo.
+    - \`data-interaction-on\`: (Optional) Which events send the interaction, separated by \`|\`. Without it, elements send on click and \`<form>\`s on submit. The event becomes the interaction type unless \`data-interaction-type\` is set.
+      - \`click\`, \`submit\` (forms; the value is a JSON object of the form's named fields), \`change\` (selects, checkboxes, radios; the value is the field's current value).
+      - \`input\`: sent once the user stops typing for 500ms (\`data-interaction-debounce="ms"\` to change); use sparingly, since every interaction generates a new screen.
+      - \`keydown:Enter\`, \`keydown:Ctrl+Enter\`, etc.: sent when the keys are pressed while focus is in the element, e.g. \`<input id="chat_input" data-interaction-id="send-chat-message" data-interaction-on="keydown:Enter">\`.
+      - \`shortcut:Ctrl+S\`, \`shortcut:ArrowLeft\`, etc.: sent when the keys are pressed anywhere on the screen.
+      - Without \`data-value-from\` or \`data-interaction-value\`, submit, change, input and keydown interactions carry the element's own value.
+    - **Menus:** To give the window app menus (File, Edit, etc.), declare them in the HTML: \`<menu data-app-menu="File"><li data-interaction-id="save-file" data-value-from="editor">Save</li></menu>\`. Declarations are hidden in the content area and shown in the window's menu bar; each item takes the same attributes as any interactive element and is sent back with type 'menu_select'. The OS already provides navigation, reload and close, so only declare app-specific commands.
 
 3.  **Statefulness and History:** You will be given the user's most recent interaction, a summary of their past interactions, and crucially, **the HTML content of the screen they were viewing right before their action**. You MUST use all of this context to generate a logical next state.
     - For example, if the previous screen content showed a list with "file.txt" and the user clicks a "delete" button next to it, the next screen should show the list *without* "file.txt" and a confirmation message. This makes your responses feel stateful and intelligent.
+    - The previous screen content reflects what the user actually did: text they typed, boxes they ticked and options they selected are written into it, and a "Live Screen State" section lists those values and scroll positions. Preserve them (e.g., keep the Notepad text the user typed) unless the interaction changes them.
     - The number of past interactions provided is controlled by the "Max History Length" parameter. A value of 0 means you only get the current interaction and previous screen content.
 
-4.  **Application-Specific Behavior:**
-    - **Notepad:** When a user saves, generate a "file saved" confirmation. If they edit text, reflect that change in the textarea.
-    - **Terminal:** Maintain a history of commands within the visible output. The latest interaction will be the user's typed command. Your response should be the command's output, appended to the previous content, followed by a new input prompt.
-    - **App Installer:** When the user opens the "App Installer", you must generate a form. This form should contain:
-        - An \`<input type="text" id="new_app_name_input">\` for the app's name.
-        - A \`<textarea id="new_app_description_input">\` for the app's description.
-        - An "Install App" button with \`data-interaction-id="install_new_app_action"\` and \`data-value-from='{"appName": "new_app_name_input", "appDescription": "new_app_description_input"}'\`. The frontend uses this to collect the form data.
-    - **Task Handoff:** When a user first opens this app, you MUST generate an initial UI that asks them to describe their task. This UI should include a \`<textarea id="task_description_input" placeholder="e.g., 'Help me plan a 5-day trip to Tokyo' or 'I need to brainstorm ideas for a new project'"></textarea>\` and a submit button with \`data-interaction-id="submit_task_description"\` and \`data-value-from="task_description_input"\`. When you receive the \`submit_task_description\` interaction, your next response should be a completely new UI, generated based on the user's described task. Be creative and build whatever interface elements are needed to help the user accomplish their goal.
+4.  **Response Envelope:** Wrap every response in exactly two tagged sections, metadata first:
+    <os-meta>{"title": "...", "state": {...}, "suggestedActions": [{"id": "...", "label": "..."}], "warnings": []}</os-meta>
+    <os-html>...the HTML for the content area...</os-html>
+    - \`title\`: A short window title for this screen (e.g., "Notepad — shopping-list.txt").
+    - \`state\`: (Optional) A compact JSON object holding the app's explicit state, such as the Terminal's working directory and recent output or the Shopping cart's items and totals. It is sent back to you with the next interaction in this app as "Current App State"; carry it forward and update it rather than re-inferring it from the previous screen.
+    - \`suggestedActions\`: (Optional) Up to 3 likely next actions. Each \`id\` is used as a \`data-interaction-id\` when the user picks it.
+    - \`warnings\`: (Optional) Short notes about anything the user should know, e.g., simulated or uncertain data.
+    - The metadata must be valid JSON on its own. Do not wrap the response in markdown code fences.
 
 **Current Request Context:**
 Based on the current user interaction and the interaction history provided below (N=${maxHistory}), generate the new HTML for the window's content area.
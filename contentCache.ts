@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {MAX_HISTORY_LENGTH, getSystemPrompt} from './constants';
+import {AppDefinition, CachedScreen} from './types';
+
+// Generated screens, reused when the user takes the same path through an app
+// again. Keys combine the path with the app's version and a hash of its
+// system prompt, so editing an app or its prompt retires its old screens.
+// Entries live in memory in least-recently-used order, bounded by count and
+// size, and are written through to IndexedDB so they survive a reload.
+// Without IndexedDB the cache is memory-only.
+
+export interface ContentCacheStats {
+  entries: number;
+  /** Approximate size in characters of HTML and metadata. */
+  size: number;
+  maxEntries: number;
+  maxSize: number;
+  byApp: Record<string, {entries: number; size: number}>;
+}
+
+interface CacheEntry extends CachedScreen {
+  key: string;
+  appId: string;
+  size: number;
+  lastUsedAt: number;
+}
+
+const DB_NAME = 'os-content-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'screens';
+const MAX_ENTRIES = 300;
+const MAX_SIZE = 8_000_000;
+
+/** Keyed by cache key; iteration order is least recently used first. */
+const entries = new Map<string, CacheEntry>();
+const listeners = new Set<() => void>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/** 32-bit FNV-1a; enough to tell prompt revisions apart. */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// App definitions are replaced, not mutated, when they change.
+const promptHashes = new WeakMap<AppDefinition, string>();
+
+function getPromptHash(app: AppDefinition): string {
+  let hash = promptHashes.get(app);
+  if (hash === undefined) {
+    hash = hashString(getSystemPrompt(MAX_HISTORY_LENGTH, app));
+    promptHashes.set(app, hash);
+  }
+  return hash;
+}
+
+/** Whether screens of `app` may be cached; apps opt out with `cacheable: false`. */
+export function isCacheable(app: AppDefinition | undefined): boolean {
+  return !!app && app.cacheable !== false;
+}
+
+function getCacheKey(app: AppDefinition, path: string[]): string {
+  return `${app.id}@${app.version ?? ''}#${getPromptHash(app)}/${path.join('__')}`;
+}
+
+// --- Persistence ---
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, {keyPath: 'key'});
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error(
+          'Failed to open the content cache database, screens will not persist:',
+          request.error,
+        );
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Applies puts and deletes to IndexedDB in the background. */
+function persist(puts: CacheEntry[], deletes: string[] = [], clear = false) {
+  openDatabase()
+    .then((db) => {
+      if (!db) return;
+      const store = db
+        .transaction(STORE_NAME, 'readwrite')
+        .objectStore(STORE_NAME);
+      if (clear) store.clear();
+      deletes.forEach((key) => store.delete(key));
+      puts.forEach((entry) => store.put(entry));
+    })
+    .catch((e) => console.error('Failed to update the content cache:', e));
+}
+
+/** Loads persisted screens into memory. Call once at startup. */
+export async function loadContentCache(): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const stored = (await requestToPromise(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll(),
+    )) as CacheEntry[];
+    stored
+      .filter((entry) => !entries.has(entry.key))
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+      .forEach((entry) => entries.set(entry.key, entry));
+    evict();
+    notify();
+  } catch (e) {
+    console.error('Failed to load the content cache:', e);
+  }
+}
+
+// --- Cache operations ---
+
+function totalSize(): number {
+  let size = 0;
+  entries.forEach((entry) => (size += entry.size));
+  return size;
+}
+
+/** Drops least recently used entries until the cache is within its limits. */
+function evict() {
+  const evicted: string[] = [];
+  let size = totalSize();
+  for (const [key, entry] of entries) {
+    if (entries.size <= MAX_ENTRIES && size <= MAX_SIZE) break;
+    entries.delete(key);
+    size -= entry.size;
+    evicted.push(key);
+  }
+  if (evicted.length > 0) persist([], evicted);
+}
+
+/** The cached screen for `path` in `app`, if any; marks it as recently used. */
+export function getCachedScreen(
+  app: AppDefinition | undefined,
+  path: string[],
+): CachedScreen | undefined {
+  if (!app || !isCacheable(app)) return undefined;
+  const key = getCacheKey(app, path);
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+  const touched = {...entry, lastUsedAt: Date.now()};
+  entries.delete(key);
+  entries.set(key, touched);
+  persist([touched]);
+  return {html: entry.html, meta: entry.meta};
+}
+
+/** Whether a screen is cached, without counting as a use of it. */
+export function hasCachedScreen(app: AppDefinition, path: string[]): boolean {
+  return isCacheable(app) && entries.has(getCacheKey(app, path));
+}
+
+/** Stores a finished screen. Unchanged screens are not written again. */
+export function cacheScreen(
+  app: AppDefinition,
+  path: string[],
+  screen: CachedScreen,
+): void {
+  if (!isCacheable(app) || path.length === 0) return;
+  const key = getCacheKey(app, path);
+  const existing = entries.get(key);
+  if (existing?.html === screen.html && existing.meta === screen.meta) return;
+  const entry: CacheEntry = {
+    key,
+    appId: app.id,
+    html: screen.html,
+    meta: screen.meta,
+    size: screen.html.length + JSON.stringify(screen.meta).length,
+    lastUsedAt: Date.now(),
+  };
+  entries.delete(key);
+  entries.set(key, entry);
+  persist([entry]);
+  evict();
+  notify();
+}
+
+/** Forgets the screens of the given apps, or of every app. */
+export function clearContentCache(appIds?: string[]): void {
+  if (!appIds) {
+    entries.clear();
+    persist([], [], true);
+    notify();
+    return;
+  }
+  const removed = [...entries.values()]
+    .filter((entry) => appIds.includes(entry.appId))
+    .map((entry) => entry.key);
+  if (removed.length === 0) return;
+  removed.forEach((key) => entries.delete(key));
+  persist([], removed);
+  notify();
+}
+
+export function getContentCacheStats(): ContentCacheStats {
+  const byApp: ContentCacheStats['byApp'] = {};
+  let size = 0;
+  entries.forEach((entry) => {
+    const app = (byApp[entry.appId] ??= {entries: 0, size: 0});
+    app.entries++;
+    app.size += entry.size;
+    size += entry.size;
+  });
+  return {
+    entries: entries.size,
+    size,
+    maxEntries: MAX_ENTRIES,
+    maxSize: MAX_SIZE,
+    byApp,
+  };
+}
+
+/** Calls `listener` whenever the cache changes. Returns an unsubscribe function. */
+export function subscribeToContentCache(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Shrinks the previous screen's HTML before it is sent back to the model.
+// Styling and decoration are stripped, interactive elements and visible text
+// are kept, and if the result is still over budget whole blocks are dropped
+// in an order that suits the app (oldest Terminal lines first, the end of a
+// long web page first, ...) instead of cutting the markup at a fixed length.
+
+/** Rough token estimate; Gemini averages about four characters per token. */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+interface CompactionProfile {
+  /** Children of this element are dropped before anything else. */
+  trimFirst?: string;
+  /** Which end of the screen loses blocks first. */
+  trimFrom: 'start' | 'end';
+  /** Regions that are never dropped. */
+  protect: string[];
+}
+
+const DEFAULT_PROFILE: CompactionProfile = {trimFrom: 'end', protect: []};
+
+const COMPACTION_PROFILES: Record<string, CompactionProfile> = {
+  terminal_app: {
+    trimFirst: '.terminal-output',
+    trimFrom: 'start',
+    protect: ['.terminal-form'],
+  },
+  shopping_app: {
+    trimFrom: 'start',
+    protect: [
+      '[id*="cart" i]',
+      '[class*="cart" i]',
+      '[data-interaction-id*="cart" i]',
+    ],
+  },
+  web_browser_app: {trimFrom: 'end', protect: ['.browser-nav']},
+  ai_studio_app: {trimFrom: 'start', protect: []},
+  notepad_app: {trimFrom: 'end', protect: ['textarea', '[contenteditable]']},
+};
+
+const REMOVED_ELEMENTS =
+  'script, style, link, meta, noscript, svg, canvas, video, audio, iframe, template';
+// Units that are dropped whole when the screen is over budget.
+const BLOCK_SELECTOR =
+  'div, p, li, tr, pre, blockquote, section, article, aside, header, footer, figure, table, ul, ol, dl, h1, h2, h3, h4, h5, h6';
+const INTERACTIVE_SELECTOR =
+  '[data-interaction-id], input, textarea, select, button, [contenteditable]';
+// Classes that carry meaning in the OS's UI contracts; everything else is styling.
+const CONTRACT_CLASS_PATTERN = /^(terminal|browser-|chat-bubble-|icon|hidden$)/;
+const KEPT_ATTRIBUTES = new Set([
+  'id',
+  'name',
+  'type',
+  'value',
+  'placeholder',
+  'checked',
+  'selected',
+  'multiple',
+  'href',
+  'alt',
+  'title',
+  'for',
+  'contenteditable',
+]);
+const OMITTED_MARKER = '[…]';
+
+function isHidden(element: Element): boolean {
+  return (
+    element.hasAttribute('hidden') ||
+    element.getAttribute('aria-hidden') === 'true' ||
+    element.classList.contains('hidden') ||
+    /display\s*:\s*none/i.test(element.getAttribute('style') ?? '')
+  );
+}
+
+const hasInteractiveContent = (element: Element) =>
+  element.matches(INTERACTIVE_SELECTOR) ||
+  element.querySelector(INTERACTIVE_SELECTOR) !== null;
+
+/** Removes decoration and styling in place, keeping structure and text. */
+function stripNoise(root: Element) {
+  root.querySelectorAll(REMOVED_ELEMENTS).forEach((el) => el.remove());
+
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    if (isHidden(element) && !hasInteractiveContent(element)) {
+      element.remove();
+      continue;
+    }
+    for (const attr of Array.from(element.attributes)) {
+      if (attr.name === 'class') {
+        const kept = Array.from(element.classList).filter((c) =>
+          CONTRACT_CLASS_PATTERN.test(c),
+        );
+        if (kept.length > 0) element.setAttribute('class', kept.join(' '));
+        else element.removeAttribute('class');
+      } else if (attr.name === 'src') {
+        // Inline media can be megabytes; only keep real URLs.
+        if (/^(data|blob):/i.test(attr.value)) element.removeAttribute('src');
+      } else if (
+        !KEPT_ATTRIBUTES.has(attr.name) &&
+        !attr.name.startsWith('data-interaction') &&
+        attr.name !== 'data-value-from'
+      ) {
+        element.removeAttribute(attr.name);
+      }
+    }
+  }
+
+  // Unwrap attribute-less wrappers that only hold a single element.
+  for (const element of Array.from(root.querySelectorAll('div, span'))) {
+    if (
+      element.attributes.length === 0 &&
+      element.children.length === 1 &&
+      element.textContent?.trim() === element.children[0].textContent?.trim()
+    ) {
+      element.replaceWith(element.children[0]);
+    }
+  }
+
+  // Drop elements left empty (decorative dividers, icon holders, ...).
+  for (const element of Array.from(root.querySelectorAll('*')).reverse()) {
+    if (
+      element.children.length === 0 &&
+      !element.textContent?.trim() &&
+      element.attributes.length === 0 &&
+      !element.matches('br, hr, img, input, textarea, select, option')
+    ) {
+      element.remove();
+    }
+  }
+
+  // Collapse whitespace in text now so block sizes below are measured as sent.
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.parentElement?.closest('pre, textarea')) {
+      node.textContent = node.textContent!.replace(/\s+/g, ' ');
+    }
+  }
+}
+
+/** Innermost blocks that can be dropped without losing interactive elements. */
+function collectDroppable(
+  root: Element,
+  profile: CompactionProfile,
+): Element[] {
+  const protectedSelector = profile.protect.join(', ');
+  const isProtected = (element: Element) =>
+    protectedSelector !== '' &&
+    (element.matches(protectedSelector) ||
+      element.closest(protectedSelector) !== null ||
+      element.querySelector(protectedSelector) !== null);
+
+  const candidates = Array.from(root.querySelectorAll(BLOCK_SELECTOR)).filter(
+    (element) =>
+      !hasInteractiveContent(element) &&
+      !isProtected(element) &&
+      element.querySelector(BLOCK_SELECTOR) === null,
+  );
+  if (profile.trimFrom === 'end') candidates.reverse();
+
+  if (profile.trimFirst) {
+    const focus = root.querySelector(profile.trimFirst);
+    if (focus) {
+      const inFocus = candidates.filter((el) => focus.contains(el));
+      const rest = candidates.filter((el) => !focus.contains(el));
+      return [...inFocus, ...rest];
+    }
+  }
+  return candidates;
+}
+
+function collapseWhitespace(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+/** Regex-only fallback for environments without DOMParser. */
+function truncateContent(html: string, maxChars: number): string {
+  const sanitized = html.replace(
+    /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
+    '',
+  );
+  return sanitized.length > maxChars
+    ? `${sanitized.substring(0, maxChars)}...`
+    : sanitized;
+}
+
+/**
+ * Compacts a previous screen's HTML to fit within `tokenBudget`, prioritising
+ * the regions that matter most for `appId`.
+ */
+export function compactPreviousContent(
+  html: string,
+  appId: string | null,
+  tokenBudget: number,
+): string {
+  const maxChars = tokenBudget * 4;
+  if (typeof DOMParser === 'undefined') {
+    return truncateContent(html, maxChars);
+  }
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const root = doc.body;
+  stripNoise(root);
+
+  const profile = (appId && COMPACTION_PROFILES[appId]) || DEFAULT_PROFILE;
+  let size = collapseWhitespace(root.innerHTML).length;
+  if (size > maxChars) {
+    for (const element of collectDroppable(root, profile)) {
+      if (size <= maxChars) break;
+      if (!element.isConnected) continue;
+      size -= element.outerHTML.length;
+      // Collapse runs of dropped siblings into a single marker.
+      const previous = element.previousSibling;
+      if (
+        previous?.nodeType === Node.TEXT_NODE &&
+        previous.textContent === OMITTED_MARKER
+      ) {
+        element.remove();
+      } else {
+        element.replaceWith(doc.createTextNode(OMITTED_MARKER));
+        size += OMITTED_MARKER.length;
+      }
+    }
+  }
+
+  const compacted = collapseWhitespace(root.innerHTML);
+  // Interactive elements alone may still exceed the budget; cut as a last resort.
+  return compacted.length > maxChars
+    ? `${compacted.substring(0, maxChars)}...`
+    : compacted;
+}
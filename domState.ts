@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Captures what the user actually did to a generated screen (typed text,
+// ticked boxes, selections, scroll) so the next prompt reflects it. The model
+// only ever sees the HTML it produced, which carries none of that.
+
+export interface FieldState {
+  /** Stable way to refer to the element in a prompt, e.g. "#notepad_text". */
+  selector: string;
+  kind: 'text' | 'checkbox' | 'radio' | 'select' | 'contenteditable';
+  value?: string;
+  checked?: boolean;
+  selected?: string[];
+}
+
+export interface ScrollState {
+  selector: string;
+  top: number;
+  /** How far through the scrollable content the view is, from 0 to 1. */
+  fraction: number;
+}
+
+export interface LiveScreenState {
+  fields: FieldState[];
+  scroll: ScrollState[];
+}
+
+export interface CapturedScreen {
+  /** The screen's HTML with current form values written back into it. */
+  html: string;
+  state: LiveScreenState;
+}
+
+const MAX_FIELD_VALUE_PROMPT_LENGTH = 500;
+
+/**
+ * Snapshots the live state of a generated screen: current form values baked
+ * into its HTML, plus a structured list of field values and scroll positions.
+ *
+ * This runs inside the screen's sandboxed frame, where the OS injects its
+ * source text (see sandboxRuntime.ts), so it must not refer to anything
+ * outside its own body.
+ */
+export function captureDomState(container: HTMLElement): CapturedScreen {
+  const FIELD_SELECTOR = 'input, textarea, select, [contenteditable]';
+  const NON_VALUE_INPUT_TYPES = [
+    'button',
+    'submit',
+    'reset',
+    'hidden',
+    'file',
+    'image',
+  ];
+
+  const describeElement = (element: Element): string => {
+    if (element === container) return 'content area';
+    if (element.id) return `#${element.id}`;
+    const tag = element.tagName.toLowerCase();
+    const name = element.getAttribute('name');
+    if (name) return `${tag}[name="${name}"]`;
+    const interactionId = element.getAttribute('data-interaction-id');
+    if (interactionId) return `${tag}[data-interaction-id="${interactionId}"]`;
+    const className = element.classList[0];
+    const base = className ? `${tag}.${className}` : tag;
+    const siblings = Array.from(container.querySelectorAll(base));
+    return siblings.length > 1
+      ? `${base} (${siblings.indexOf(element) + 1} of ${siblings.length})`
+      : base;
+  };
+
+  const readField = (element: Element, selector: string): FieldState | null => {
+    if (element instanceof HTMLInputElement) {
+      if (NON_VALUE_INPUT_TYPES.includes(element.type)) return null;
+      if (element.type === 'checkbox' || element.type === 'radio') {
+        return {
+          selector,
+          kind: element.type,
+          value: element.value,
+          checked: element.checked,
+        };
+      }
+      return {selector, kind: 'text', value: element.value};
+    }
+    if (element instanceof HTMLTextAreaElement) {
+      return {selector, kind: 'text', value: element.value};
+    }
+    if (element instanceof HTMLSelectElement) {
+      return {
+        selector,
+        kind: 'select',
+        selected: Array.from(element.selectedOptions).map(
+          (option) => option.value || option.text,
+        ),
+      };
+    }
+    if (element instanceof HTMLElement && element.isContentEditable) {
+      return {selector, kind: 'contenteditable', value: element.innerText};
+    }
+    return null;
+  };
+
+  // Writes an element's live value into the attributes of its clone.
+  const bakeValue = (live: Element, clone: Element) => {
+    if (live instanceof HTMLInputElement) {
+      if (live.type === 'checkbox' || live.type === 'radio') {
+        clone.toggleAttribute('checked', live.checked);
+      } else if (live.type !== 'file') {
+        clone.setAttribute('value', live.value);
+      }
+    } else if (live instanceof HTMLTextAreaElement) {
+      clone.textContent = live.value;
+    } else if (live instanceof HTMLSelectElement) {
+      const cloneOptions = (clone as HTMLSelectElement).options;
+      Array.from(live.options).forEach((option, index) => {
+        cloneOptions[index]?.toggleAttribute('selected', option.selected);
+      });
+    }
+  };
+
+  const clone = container.cloneNode(true) as HTMLElement;
+  const liveFields = Array.from(container.querySelectorAll(FIELD_SELECTOR));
+  const cloneFields = Array.from(clone.querySelectorAll(FIELD_SELECTOR));
+
+  const fields: FieldState[] = [];
+  liveFields.forEach((element, index) => {
+    bakeValue(element, cloneFields[index]);
+    const field = readField(element, describeElement(element));
+    if (field) fields.push(field);
+  });
+
+  const scroll: ScrollState[] = [];
+  [container, ...Array.from(container.querySelectorAll('*'))].forEach(
+    (element) => {
+      if (element.scrollTop <= 0) return;
+      const range = element.scrollHeight - element.clientHeight;
+      scroll.push({
+        selector: describeElement(element),
+        top: Math.round(element.scrollTop),
+        fraction: range > 0 ? Math.min(1, element.scrollTop / range) : 0,
+      });
+    },
+  );
+
+  return {html: clone.innerHTML, state: {fields, scroll}};
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_FIELD_VALUE_PROMPT_LENGTH
+    ? `${text.substring(0, MAX_FIELD_VALUE_PROMPT_LENGTH)}...`
+    : text;
+}
+
+/** Renders live screen state as prompt text, or '' when there is nothing to say. */
+export function describeLiveScreenState(state: LiveScreenState): string {
+  const lines: string[] = [];
+  for (const field of state.fields) {
+    switch (field.kind) {
+      case 'checkbox':
+      case 'radio':
+        lines.push(
+          `- ${field.kind} ${field.selector} (value '${field.value}'): ${field.checked ? 'checked' : 'not checked'}`,
+        );
+        break;
+      case 'select':
+        lines.push(
+          `- select ${field.selector}: selected ${field.selected!.map((v) => `'${v}'`).join(', ') || 'nothing'}`,
+        );
+        break;
+      default:
+        if (field.value) {
+          lines.push(
+            `- ${field.kind === 'text' ? 'field' : 'editable'} ${field.selector}: '${truncate(field.value)}'`,
+          );
+        }
+    }
+  }
+  for (const entry of state.scroll) {
+    lines.push(
+      `- ${entry.selector} scrolled to ${Math.round(entry.fraction * 100)}% (${entry.top}px from the top)`,
+    );
+  }
+  return lines.join('\n');
+}
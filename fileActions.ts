@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {describeError} from './retry';
+import {InteractionData} from './types';
+import {
+  DOCUMENTS_PATH,
+  TRASH_PATH,
+  deletePermanently,
+  describeTree,
+  emptyTrash,
+  makeDirectory,
+  moveToTrash,
+  normalizePath,
+  readFile,
+  restoreFromTrash,
+  writeFile,
+} from './virtualFs';
+
+// Interactions that operate on the virtual filesystem. The OS performs the
+// operation first and then tells the model what happened, so the next screen
+// is generated from real files instead of invented ones.
+
+/** The part of the filesystem each app sees in its prompt; others see Documents. */
+const FILESYSTEM_VIEWS: Record<string, string> = {
+  trash_bin: TRASH_PATH,
+  terminal_app: '/',
+};
+
+export const FILE_ACTION_IDS = [
+  'fs_save_file',
+  'fs_open_file',
+  'fs_create_folder',
+  'fs_delete_file',
+  'fs_restore_file',
+  'fs_delete_permanently',
+  'fs_empty_trash',
+];
+
+const MAX_OPENED_FILE_PROMPT_LENGTH = 6000;
+
+export const isFileAction = (interactionId: string) =>
+  FILE_ACTION_IDS.includes(interactionId);
+
+/** Reads a `{"path": ..., ...}` value, or a bare path from `data-interaction-value`. */
+function parseValue(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object') return parsed;
+  } catch (e) {
+    // Not JSON: a plain path.
+  }
+  return {path: value};
+}
+
+/** Resolves a name relative to `base`, keeping absolute paths as they are. */
+function resolvePath(
+  path: string | undefined,
+  base = DOCUMENTS_PATH,
+  fallbackName?: string,
+): string {
+  const target = path?.trim() || fallbackName;
+  if (!target) throw new Error('No file path was given.');
+  return normalizePath(target.startsWith('/') ? target : `${base}/${target}`);
+}
+
+async function runFileAction(
+  interactionId: string,
+  value: Record<string, string>,
+): Promise<string> {
+  switch (interactionId) {
+    case 'fs_save_file': {
+      const path = resolvePath(
+        value.path ?? value.name,
+        DOCUMENTS_PATH,
+        'Untitled.txt',
+      );
+      const node = await writeFile(path, value.content ?? '');
+      return `Saved ${node.path} (${node.size} bytes).`;
+    }
+    case 'fs_open_file': {
+      const node = await readFile(resolvePath(value.path));
+      const content = node.content ?? '';
+      const shown =
+        content.length > MAX_OPENED_FILE_PROMPT_LENGTH
+          ? `${content.substring(0, MAX_OPENED_FILE_PROMPT_LENGTH)}\n… (truncated)`
+          : content;
+      return `Opened ${node.path} (${node.size} bytes). Its exact content is:\n---\n${shown}\n---`;
+    }
+    case 'fs_create_folder': {
+      const node = await makeDirectory(resolvePath(value.path ?? value.name));
+      return `Created folder ${node.path}.`;
+    }
+    case 'fs_delete_file': {
+      const path = resolvePath(value.path);
+      const trashed = await moveToTrash(path);
+      return `Moved ${path} to the Trash as ${trashed}.`;
+    }
+    case 'fs_restore_file': {
+      const path = resolvePath(value.path, TRASH_PATH);
+      const restored = await restoreFromTrash(path);
+      return `Restored ${path} to ${restored}.`;
+    }
+    case 'fs_delete_permanently': {
+      const path = resolvePath(value.path, TRASH_PATH);
+      await deletePermanently(path);
+      return `Permanently deleted ${path}.`;
+    }
+    case 'fs_empty_trash': {
+      const count = await emptyTrash();
+      return `Emptied the Trash (${count} item${count === 1 ? '' : 's'} deleted).`;
+    }
+    default:
+      throw new Error(`Unknown file action "${interactionId}".`);
+  }
+}
+
+/**
+ * Performs the filesystem operation an interaction asks for and describes the
+ * outcome for the prompt. Failures are described too, never thrown, so the
+ * model can show the error on the next screen.
+ */
+export async function performFileAction(
+  interaction: InteractionData,
+): Promise<string> {
+  try {
+    return await runFileAction(interaction.id, parseValue(interaction.value));
+  } catch (e) {
+    console.warn(`File action ${interaction.id} failed:`, e);
+    return `The operation failed: ${describeError(e)}`;
+  }
+}
+
+/** The app's view of the filesystem as prompt text, or '' if it cannot be read. */
+export async function describeFilesystemForApp(
+  appId: string | null,
+): Promise<string> {
+  const root = (appId && FILESYSTEM_VIEWS[appId]) || DOCUMENTS_PATH;
+  try {
+    return `${root}\n${await describeTree(root)}`;
+  } catch (e) {
+    console.error('Failed to list the filesystem:', e);
+    return '';
+  }
+}
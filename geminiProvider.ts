@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+  Modality,
+} from '@google/genai';
+import {
+  ContentChunk,
+  ContentRequest,
+  ContentResult,
+  GroundingSource,
+  LiveConnectRequest,
+  LiveSession,
+  MediaRequest,
+  MediaResult,
+  ModelProvider,
+  ModelTool,
+  TokenUsage,
+} from './modelProvider';
+
+/** Generates screens, icons and Terminal output; the proxy allows no other. */
+export const TEXT_MODEL = 'gemini-2.5-flash';
+export const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+
+/** Generation settings for Veo; shared with the API proxy. */
+export function toVideoConfig(aspectRatio: string) {
+  return {
+    numberOfVideos: 1,
+    resolution: '720p',
+    aspectRatio: aspectRatio as '16:9' | '9:16',
+  };
+}
+
+function toGeminiTools(tools: ModelTool[] | undefined) {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map((tool) => {
+    switch (tool) {
+      case 'google_search':
+        return {googleSearch: {}};
+    }
+  });
+}
+
+// Attachments follow the prompt as inline parts.
+function toContents({prompt, attachments}: ContentRequest) {
+  if (!attachments || attachments.length === 0) return prompt;
+  return {
+    parts: [
+      {text: prompt},
+      ...attachments.map((attachment) => ({inlineData: attachment})),
+    ],
+  };
+}
+
+function toTokenUsage(
+  metadata: GenerateContentResponseUsageMetadata | undefined,
+): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+    toolUseTokens: metadata.toolUsePromptTokenCount ?? 0,
+    thoughtsTokens: metadata.thoughtsTokenCount ?? 0,
+    totalTokens: metadata.totalTokenCount ?? 0,
+  };
+}
+
+/**
+ * Creates the provider backed by the Gemini API. The client is created lazily
+ * so that merely importing this module never requires an API key.
+ */
+export function createGeminiProvider(): ModelProvider {
+  let ai: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!ai) {
+      ai = new GoogleGenAI({apiKey: process.env.API_KEY!}); // The "!" asserts API_KEY is non-null after the check.
+    }
+    return ai;
+  };
+
+  const getConfigurationError = () =>
+    process.env.API_KEY
+      ? null
+      : 'The API_KEY is not configured. Please set the API_KEY environment variable.';
+
+  if (getConfigurationError()) {
+    // This is a critical error. In a real app, you might throw or display a persistent error.
+    // For this environment, logging to console is okay, but the app might not function.
+    console.error(
+      'API_KEY environment variable is not set. The application will not be able to connect to the Gemini API.',
+    );
+  }
+
+  return {
+    id: 'gemini',
+    label: 'Gemini API',
+    getConfigurationError,
+
+    async *streamContent(request: ContentRequest): AsyncIterable<ContentChunk> {
+      const response = await getClient().models.generateContentStream({
+        model: request.model,
+        contents: toContents(request),
+        config: {
+          tools: toGeminiTools(request.tools),
+          abortSignal: request.signal,
+        },
+      });
+
+      for await (const chunk of response) {
+        const groundingSources: GroundingSource[] = [];
+        const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
+        for (const chunkInfo of groundingMetadata?.groundingChunks ?? []) {
+          if (chunkInfo.web?.uri) {
+            groundingSources.push({
+              uri: chunkInfo.web.uri,
+              title: chunkInfo.web.title,
+            });
+          }
+        }
+        yield {
+          text: chunk.text,
+          groundingSources:
+            groundingSources.length > 0 ? groundingSources : undefined,
+          searchQueries: groundingMetadata?.webSearchQueries,
+          usage: toTokenUsage(chunk.usageMetadata),
+        };
+      }
+    },
+
+    async generateContent(request: ContentRequest): Promise<ContentResult> {
+      const response = await getClient().models.generateContent({
+        model: request.model,
+        contents: toContents(request),
+        config: {
+          tools: toGeminiTools(request.tools),
+          abortSignal: request.signal,
+        },
+      });
+      return {
+        text: response.text ?? '',
+        usage: toTokenUsage(response.usageMetadata),
+      };
+    },
+
+    async generateImage({
+      prompt,
+      aspectRatio,
+    }: MediaRequest): Promise<MediaResult> {
+      // Gemini 2.5 Flash Image does not support aspectRatio in config, so we add it to the prompt.
+      const enhancedPrompt = `${prompt}. Aspect ratio: ${aspectRatio}`;
+
+      const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash-image',
+        contents: {
+          parts: [{text: enhancedPrompt}],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      const part = response.candidates?.[0]?.content?.parts?.[0];
+      if (part?.inlineData?.data) {
+        return {
+          url: `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`,
+          usage: toTokenUsage(response.usageMetadata),
+        };
+      }
+      throw new Error('No image generated');
+    },
+
+    async generateVideo({
+      prompt,
+      aspectRatio,
+    }: MediaRequest): Promise<MediaResult> {
+      // Important: We must instantiate a NEW GoogleGenAI client here.
+      // This is because Veo requires the user to select an API key via window.aistudio.
+      // The SDK likely picks up this selected key from the environment or internal state
+      // when a new client is created after selection.
+      const currentAi = new GoogleGenAI({apiKey: process.env.API_KEY!});
+
+      let operation = await currentAi.models.generateVideos({
+        model: VIDEO_MODEL,
+        prompt: prompt,
+        config: toVideoConfig(aspectRatio),
+      });
+
+      while (!operation.done) {
+        await new Promise((resolve) => setTimeout(resolve, 5000)); // Poll every 5 seconds
+        operation = await currentAi.operations.getVideosOperation({
+          operation: operation,
+        });
+      }
+
+      const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+      if (!videoUri) {
+        throw new Error('No video generated');
+      }
+
+      // Fetch the actual video bytes
+      const videoResponse = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
+      if (!videoResponse.ok) {
+        throw new Error('Failed to download video content');
+      }
+      const videoBlob = await videoResponse.blob();
+      return {url: URL.createObjectURL(videoBlob)};
+    },
+
+    async connectLive({
+      model,
+      voiceName,
+      callbacks,
+    }: LiveConnectRequest): Promise<LiveSession> {
+      return getClient().live.connect({
+        model,
+        callbacks: {
+          onopen: () => callbacks.onopen?.(),
+          onmessage: callbacks.onmessage,
+          onclose: () => callbacks.onclose?.(),
+          onerror: (err) => callbacks.onerror?.(err),
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {prebuiltVoiceConfig: {voiceName}},
+          },
+          // Both sides are transcribed for the on-screen transcript.
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+        },
+      });
+    },
+  };
+}
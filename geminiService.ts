@@ -3,22 +3,47 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 /* tslint:disable */
-import {Blob, GoogleGenAI, GenerateContentResponse, Modality} from '@google/genai';
-import {APP_DEFINITIONS_CONFIG, getSystemPrompt} from './constants'; // Import getSystemPrompt and APP_DEFINITIONS_CONFIG
-import {InteractionData} from './types';
-
-if (!process.env.API_KEY) {
-  // This is a critical error. In a real app, you might throw or display a persistent error.
-  // For this environment, logging to console is okay, but the app might not function.
-  console.error(
-    'API_KEY environment variable is not set. The application will not be able to connect to the Gemini API.',
-  );
-}
-
-const ai = new GoogleGenAI({apiKey: process.env.API_KEY!}); // The "!" asserts API_KEY is non-null after the check.
+import {
+  APP_DEFINITIONS_CONFIG,
+  DEFAULT_RETRY_OPTIONS,
+  PREVIOUS_CONTENT_TOKEN_BUDGET,
+  getSystemPrompt,
+} from './constants'; // Import getSystemPrompt and APP_DEFINITIONS_CONFIG
+import {
+  LiveSession,
+  LiveSessionCallbacks,
+  TokenUsage,
+  getModelProvider,
+} from './modelProvider';
+import {isBuiltInApp} from './appStore';
+import {getPermission, getToolsForInteraction} from './capabilities';
+import {compactPreviousContent} from './contextCompactor';
+import {LiveScreenState, describeLiveScreenState} from './domState';
+import {describeFilesystemForApp} from './fileActions';
+import {TEXT_MODEL} from './geminiProvider';
+import {EnvelopeEvent, createEnvelopeParser} from './responseEnvelope';
+import {
+  RetryOptions,
+  describeError,
+  getBackoffDelay,
+  isAbortError,
+  isTransientError,
+  sleep,
+} from './retry';
+import {AppDefinition, InteractionData} from './types';
+import {
+  UsageKind,
+  assertWithinBudget,
+  estimateUsage,
+  getBudgetStatus,
+  recordUsage,
+} from './usageTracker';
+
+/** Upper bound on the serialized app state echoed back into the prompt. */
+const MAX_APP_STATE_PROMPT_LENGTH = 4000;
 
 /**
- * Generates an appropriate emoji icon for a new application using the Gemini API.
+ * Generates an appropriate emoji icon for a new application using the active model provider.
  * @param appName The name of the new application.
  * @param appDescription The description of the new application.
  * @returns A promise that resolves to a single emoji string.
@@ -27,9 +52,11 @@ export async function generateAppIcon(
   appName: string,
   appDescription: string,
 ): Promise<string> {
-  const model = 'gemini-2.5-flash';
-  if (!process.env.API_KEY) {
-    console.error('API_KEY not set, cannot generate icon.');
+  const model = TEXT_MODEL;
+  const provider = getModelProvider();
+  const configurationError = provider.getConfigurationError();
+  if (configurationError) {
+    console.error('Cannot generate icon:', configurationError);
     return '❓'; // Return a default fallback emoji
   }
 
@@ -40,12 +67,27 @@ export async function generateAppIcon(
   
   Provide only a single, relevant emoji. Do not include any other text, explanation, or punctuation. For example, if the app is a "Weather App", a good response is "☀️".`;
 
+  // Over budget, the app quietly gets the default icon rather than an error.
+  if (getBudgetStatus().blocked) return '📦';
+
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
+    const startedAt = performance.now();
+    const {text, usage} = await provider.generateContent({
       model: model,
-      contents: prompt,
+      prompt: prompt,
+      context: {kind: 'app_icon', appName, appDescription},
+    });
+    recordUsage({
+      kind: 'icon',
+      appId: 'installer_app',
+      model,
+      providerId: provider.id,
+      latencyMs: performance.now() - startedAt,
+      usage: usage ?? estimateUsage(prompt, text),
+      searchQueries: 0,
+      estimated: !usage,
     });
-    const emoji = response.text?.trim() || '📦';
+    const emoji = text.trim() || '📦';
     // A simple validation to check if it's likely an emoji and not a long string
     if (/\p{Emoji}/u.test(emoji) && emoji.length <= 5) {
       return emoji;
@@ -59,153 +101,242 @@ export async function generateAppIcon(
 }
 
 /**
- * Generates an image using Gemini 2.5 Flash Image (Nano Banana).
+ * Asks the model for the output of a Terminal command the built-in shell does
+ * not know, as plain text.
+ * @param transcript The most recent lines on the Terminal screen, for context.
+ */
+export async function runTerminalCommandWithModel(
+  command: string,
+  app: AppDefinition,
+  cwd: string,
+  transcript: string[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const model = TEXT_MODEL;
+  const provider = getModelProvider();
+  const configurationError = provider.getConfigurationError();
+  if (configurationError) throw new Error(configurationError);
+  assertWithinBudget();
+
+  let filesystemSegment = '';
+  if (getPermission(app, 'persistent_storage') === 'granted') {
+    const listing = await describeFilesystemForApp(app.id);
+    if (listing) {
+      filesystemSegment = `\n\nThe real filesystem (refer only to these files):\n${listing}`;
+    }
+  }
+  const prompt = `You are the command-line shell of MichaelWalshOS. The shell runs ls, cd, pwd, cat, echo, mkdir, rm, mv, history, clear and open itself; you answer every other command, such as calculators, utilities, games or questions typed at the prompt.
+
+Working directory: ${cwd}${filesystemSegment}
+
+Recent terminal output:
+---
+${transcript.join('\n') || '(empty)'}
+---
+
+Command: ${command}
+
+Reply with only the text the command prints, as plain text without Markdown or code fences. If the command does not exist on a Unix-like system and is not a reasonable request, reply "<name>: command not found". Do not claim to have changed any files.`;
+
+  const startedAt = performance.now();
+  const {text, usage} = await provider.generateContent({
+    model,
+    prompt,
+    context: {kind: 'terminal_command', command},
+    signal,
+  });
+  recordUsage({
+    kind: 'terminal',
+    appId: app.id,
+    model,
+    providerId: provider.id,
+    latencyMs: performance.now() - startedAt,
+    usage: usage ?? estimateUsage(prompt, text),
+    searchQueries: 0,
+    estimated: !usage,
+  });
+  return text.replace(/^```\w*\n?|\n?```$/g, '').replace(/\s+$/, '');
+}
+
+/**
+ * Generates an image using Gemini 2.5 Flash Image (Nano Banana), or the active provider's equivalent.
  */
 export async function generateImageWithGemini(
   prompt: string,
   aspectRatio: string,
+  appContext: string | null = null,
 ): Promise<string> {
-  // Gemini 2.5 Flash Image does not support aspectRatio in config, so we add it to the prompt.
-  const enhancedPrompt = `${prompt}. Aspect ratio: ${aspectRatio}`;
-
-  const response = await ai.models.generateContent({
+  assertWithinBudget();
+  const provider = getModelProvider();
+  const startedAt = performance.now();
+  const {url, usage} = await provider.generateImage({prompt, aspectRatio});
+  recordUsage({
+    kind: 'image',
+    appId: appContext,
     model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [{text: enhancedPrompt}],
-    },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
+    providerId: provider.id,
+    latencyMs: performance.now() - startedAt,
+    usage: usage ?? estimateUsage(prompt, ''),
+    searchQueries: 0,
+    estimated: !usage,
   });
-
-  const part = response.candidates?.[0]?.content?.parts?.[0];
-  if (part?.inlineData?.data) {
-    return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-  }
-  throw new Error('No image generated');
+  return url;
 }
 
 /**
- * Generates a video using Veo.
+ * Generates a video using Veo, or the active provider's equivalent.
+ * Veo reports no token usage; its cost is estimated per second of video.
  */
 export async function generateVideoWithVeo(
   prompt: string,
   aspectRatio: string,
+  appContext: string | null = null,
 ): Promise<string> {
-  // Important: We must instantiate a NEW GoogleGenAI client here.
-  // This is because Veo requires the user to select an API key via window.aistudio.
-  // The SDK likely picks up this selected key from the environment or internal state
-  // when a new client is created after selection.
-  const currentAi = new GoogleGenAI({apiKey: process.env.API_KEY!});
-
-  let operation = await currentAi.models.generateVideos({
+  assertWithinBudget();
+  const provider = getModelProvider();
+  const startedAt = performance.now();
+  const {url, usage} = await provider.generateVideo({prompt, aspectRatio});
+  recordUsage({
+    kind: 'video',
+    appId: appContext,
     model: 'veo-3.1-fast-generate-preview',
-    prompt: prompt,
-    config: {
-      numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio: aspectRatio as '16:9' | '9:16',
-    },
+    providerId: provider.id,
+    latencyMs: performance.now() - startedAt,
+    usage: usage ?? estimateUsage(prompt, ''),
+    searchQueries: 0,
+    estimated: !usage,
   });
-
-  while (!operation.done) {
-    await new Promise((resolve) => setTimeout(resolve, 5000)); // Poll every 5 seconds
-    operation = await currentAi.operations.getVideosOperation({
-      operation: operation,
-    });
-  }
-
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) {
-    throw new Error('No video generated');
-  }
-
-  // Fetch the actual video bytes
-  const videoResponse = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
-  if (!videoResponse.ok) {
-    throw new Error('Failed to download video content');
-  }
-  const videoBlob = await videoResponse.blob();
-  return URL.createObjectURL(videoBlob);
+  return url;
 }
 
-// --- Audio Helpers for Live API ---
+/** Audio is billed at a fixed number of tokens per second. */
+const LIVE_AUDIO_TOKENS_PER_SECOND = 32;
 
-export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  
-  let binary = '';
-  const bytes = new Uint8Array(int16.buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  const base64 = btoa(binary);
+/**
+ * Opens a real-time audio session with the active provider; see liveSession.ts
+ * for the audio and session handling. Throws if the budget blocks model calls.
+ */
+export async function connectLiveSession(
+  model: string,
+  voiceName: string,
+  callbacks: LiveSessionCallbacks,
+): Promise<LiveSession> {
+  assertWithinBudget();
+  return getModelProvider().connectLive({model, voiceName, callbacks});
+}
 
-  return {
-    data: base64,
-    mimeType: 'audio/pcm;rate=16000',
-  };
+/**
+ * Records a finished live session. Live audio reports no usage, so it is
+ * estimated from how long the microphone streamed and the model spoke.
+ */
+export function recordLiveSessionUsage(
+  model: string,
+  appId: string | null,
+  connectedMs: number,
+  spokenSeconds: number,
+): void {
+  const promptTokens = Math.round(
+    (connectedMs / 1000) * LIVE_AUDIO_TOKENS_PER_SECOND,
+  );
+  const outputTokens = Math.round(spokenSeconds * LIVE_AUDIO_TOKENS_PER_SECOND);
+  recordUsage({
+    kind: 'live',
+    appId,
+    model,
+    providerId: getModelProvider().id,
+    latencyMs: connectedMs,
+    usage: {
+      promptTokens,
+      outputTokens,
+      toolUseTokens: 0,
+      thoughtsTokens: 0,
+      totalTokens: promptTokens + outputTokens,
+    },
+    searchQueries: 0,
+    estimated: true,
+  });
 }
 
-export function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
+export interface StreamAppContentOptions {
+  /** Cancels the request; the generator then throws an AbortError. */
+  signal?: AbortSignal;
+  retry?: RetryOptions;
+  /** Token budget for the compacted previous screen in the prompt. */
+  contextTokenBudget?: number;
+  /** Installed apps, including custom ones; defaults to the built-in apps. */
+  apps?: AppDefinition[];
+  /** Outcome of the filesystem operation this interaction performed. */
+  fileOperation?: string;
+  /** How the call is recorded in usage; defaults to 'screen'. */
+  usageKind?: UsageKind;
 }
 
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
+/** Emitted before a failed request is retried after a backoff delay. */
+export interface RetryEvent {
+  type: 'retry';
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: string;
 }
 
+export type AppContentEvent = EnvelopeEvent | RetryEvent;
+
+/**
+ * Streams the next screen for an interaction. The model's response envelope is
+ * parsed as it arrives: HTML is yielded in `html` events for progressive
+ * rendering, and the title, app state, suggestions and warnings in `meta` events.
+ * @param liveScreenState What the user did on the previous screen (field values, scroll).
+ * @param appState The `state` the model returned with this app's previous screen.
+ *
+ * Transient API errors are retried with exponential backoff as long as nothing
+ * has been streamed yet; other errors, and aborts, are thrown to the caller.
+ * So are a missing configuration and an exhausted budget, so that no error
+ * screen is ever shown or cached as if the model had produced it.
+ */
 export async function* streamAppContent(
   interactionHistory: InteractionData[],
   currentMaxHistoryLength: number, // Receive current max history length
   previousContent: string | null,
-): AsyncGenerator<string, void, void> {
-  const model = 'gemini-2.5-flash'; // Updated model
-
-  if (!process.env.API_KEY) {
-    yield `<div class="p-4 text-red-700 bg-red-100 rounded-lg">
-      <p class="font-bold text-lg">Configuration Error</p>
-      <p class="mt-2">The API_KEY is not configured. Please set the API_KEY environment variable.</p>
-    </div>`;
-    return;
+  liveScreenState?: LiveScreenState | null,
+  appState?: unknown,
+  options: StreamAppContentOptions = {},
+): AsyncGenerator<AppContentEvent, void, void> {
+  const model = TEXT_MODEL;
+  const provider = getModelProvider();
+
+  const configurationError = provider.getConfigurationError();
+  if (configurationError) {
+    throw new Error(configurationError);
   }
 
-  if (interactionHistory.length === 0) {
-    yield `<div class="p-4 text-orange-700 bg-orange-100 rounded-lg">
-      <p class="font-bold text-lg">No interaction data provided.</p>
-    </div>`;
-    return;
+  const budgetStatus = getBudgetStatus();
+  if (budgetStatus.blocked) {
+    throw new Error(
+      `${budgetStatus.message} Raise the limit or switch it to "warn" in System Parameters to continue.`,
+    );
   }
 
-  const systemPrompt = getSystemPrompt(currentMaxHistoryLength); // Generate system prompt dynamically
+  if (interactionHistory.length === 0) {
+    throw new Error('No interaction data provided.');
+  }
 
+  const apps = options.apps ?? APP_DEFINITIONS_CONFIG;
   const currentInteraction = interactionHistory[0];
+  // File contents go to the model as attachments, not inside the prompt text.
+  // Interactions replayed from window history or recordings no longer hold
+  // them, so their files are left out.
+  const {files: allFiles, ...interactionWithoutFiles} = currentInteraction;
+  const files = allFiles?.filter((file) => file.data);
+  const currentAppDef = apps.find(
+    (app) => app.id === currentInteraction.appContext,
+  );
+  // Only the active app's prompt module is sent, composed with the OS core prompt.
+  const systemPrompt = getSystemPrompt(
+    currentMaxHistoryLength,
+    currentAppDef ?? null,
+  );
+
   // pastInteractions already respects currentMaxHistoryLength due to slicing in App.tsx
   const pastInteractions = interactionHistory.slice(1);
 
@@ -218,9 +349,6 @@ export async function* streamAppContent(
     currentInteractionSummary += ` Associated value: '${currentInteraction.value.substring(0, 100)}'.`;
   }
 
-  const currentAppDef = APP_DEFINITIONS_CONFIG.find(
-    (app) => app.id === currentInteraction.appContext,
-  );
   const currentAppContext = currentInteraction.appContext
     ? `Current App Context: '${currentAppDef?.name || currentInteraction.appContext}'.`
     : 'No specific app context for current interaction.';
@@ -236,9 +364,7 @@ export async function* streamAppContent(
     pastInteractions.forEach((interaction, index) => {
       const pastElementName =
         interaction.elementText || interaction.id || 'Unknown Element';
-      const appDef = APP_DEFINITIONS_CONFIG.find(
-        (app) => app.id === interaction.appContext,
-      );
+      const appDef = apps.find((app) => app.id === interaction.appContext);
       const appName = interaction.appContext
         ? appDef?.name || interaction.appContext
         : 'N/A';
@@ -252,108 +378,173 @@ export async function* streamAppContent(
 
   let previousContentSegment = '';
   if (previousContent) {
-    // Sanitize and truncate the HTML to keep the prompt reasonable.
-    const sanitizedContent = previousContent.replace(
-      /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
-      '',
+    // Strip styling and decoration and fit the rest to the token budget, keeping
+    // interactive elements and the regions that matter most for this app.
+    const compactedContent = compactPreviousContent(
+      previousContent,
+      currentInteraction.appContext,
+      options.contextTokenBudget ?? PREVIOUS_CONTENT_TOKEN_BUDGET,
     );
-    const truncatedContent = sanitizedContent.substring(0, 2500);
-    previousContentSegment = `\n\n**Previous Screen Content (The user was viewing this when they took the current action):**
+    previousContentSegment = `\n\n**Previous Screen Content (The user was viewing this when they took the current action; styling was removed and "[…]" marks omitted blocks):**
 ---
-${truncatedContent}${sanitizedContent.length > 2500 ? '...' : ''}
+${compactedContent}
 ---`;
   }
 
+  let liveStateSegment = '';
+  const liveStateDescription = liveScreenState
+    ? describeLiveScreenState(liveScreenState)
+    : '';
+  if (liveStateDescription) {
+    liveStateSegment = `\n\n**Live Screen State (what the user typed, selected and scrolled to on the previous screen; honor it in the next screen):**
+${liveStateDescription}`;
+  }
+
+  let appStateSegment = '';
+  if (appState !== undefined) {
+    const serializedState = JSON.stringify(appState);
+    appStateSegment = `\n\n**Current App State (the "state" you returned with the previous screen of this app; carry it forward and update it):**
+${serializedState.substring(0, MAX_APP_STATE_PROMPT_LENGTH)}${serializedState.length > MAX_APP_STATE_PROMPT_LENGTH ? '...' : ''}`;
+  }
+
+  let installedAppsSegment = '';
+  if (currentInteraction.appContext === 'installer_app') {
+    const customApps = apps.filter((app) => !isBuiltInApp(app.id));
+    installedAppsSegment = `\n\n**Installed Apps (user-installed apps that can be exported):**
+${customApps.map((app) => `- ${app.icon} ${app.name} (id: ${app.id})`).join('\n') || 'None yet.'}`;
+  }
+
+  let filesystemSegment = '';
+  if (
+    currentAppDef &&
+    getPermission(currentAppDef, 'persistent_storage') === 'granted'
+  ) {
+    const listing = await describeFilesystemForApp(currentAppDef.id);
+    if (listing) {
+      filesystemSegment = `\n\n**Filesystem (the real files on this computer; list, open and show only these):**
+${listing}`;
+    }
+  }
+  if (options.fileOperation) {
+    filesystemSegment += `\n\n**Filesystem Operation Result (already performed by the OS for the current interaction; reflect it on screen):**
+${options.fileOperation}`;
+  }
+
+  let attachedFilesSegment = '';
+  if (files && files.length > 0) {
+    attachedFilesSegment = `\n\n**Attached Files (picked by the user for the current interaction; their contents follow this prompt, in this order):**
+${files.map((file, index) => `${index + 1}. ${file.name} (${file.mimeType}, ${file.size} bytes)`).join('\n')}`;
+  }
+
   const fullPrompt = `${systemPrompt}
-${previousContentSegment}
+${previousContentSegment}${liveStateSegment}${appStateSegment}${installedAppsSegment}${filesystemSegment}${attachedFilesSegment}
 
 ${currentInteractionSummary}
 ${currentAppContext}
 ${historyPromptSegment}
 
 Full Context for Current Interaction (for your reference, primarily use summaries and history):
-${JSON.stringify(currentInteraction, null, 1)}
+${JSON.stringify(interactionWithoutFiles, null, 1)}
 
-Generate the HTML content for the window's content area only:`;
+Generate the response envelope for the window's content area only:`;
 
   // --- Agentic Tool Configuration ---
-  const config: any = {};
-
-  const isTaskHandoffAgentActive =
-    currentInteraction.appContext === 'task_handoff_app' &&
-    currentInteraction.type !== 'app_open';
-
-  const isWebBrowserActive =
-    currentInteraction.appContext === 'web_browser_app' &&
-    currentInteraction.type !== 'app_open';
-
-  // Enable Google Search tool for the Task Handoff app and Web Browser app, but not on their initial opening screens.
-  if (isTaskHandoffAgentActive || isWebBrowserActive) {
-    config.tools = [{googleSearch: {}}];
-  }
-  // --- End Agentic Tool Configuration ---
-
-  try {
-    const response = await ai.models.generateContentStream({
-      model: model,
-      contents: fullPrompt,
-      config: config,
-    });
+  // Tools follow the app's declared capabilities that the user has granted
+  // (e.g. Google Search for the Web and Task Handoff apps).
+  const tools = getToolsForInteraction(currentAppDef, currentInteraction);
+
+  const retryOptions = options.retry ?? DEFAULT_RETRY_OPTIONS;
+  for (let attempt = 1; ; attempt++) {
+    // Once any part of the screen has been shown, retrying would duplicate it.
+    let receivedChunks = false;
+    const startedAt = performance.now();
+    let outputText = '';
+    let usage: TokenUsage | undefined;
+    const searchQueries = new Set<string>();
+    try {
+      const response = provider.streamContent({
+        model: model,
+        prompt: fullPrompt,
+        tools: tools,
+        attachments: files?.map(({mimeType, data}) => ({mimeType, data})),
+        context: {kind: 'screen', interaction: interactionWithoutFiles},
+        signal: options.signal,
+      });
 
-    const allGroundingChunks = new Map<string, string>(); // Use a Map to store unique URIs and their titles
+      const allGroundingChunks = new Map<string, string | undefined>(); // Use a Map to store unique URIs and their titles
 
-    for await (const chunk of response) {
-      if (chunk.text) {
-        yield chunk.text;
-      }
-      // Extract grounding metadata from each chunk
-      const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
-      if (groundingMetadata?.groundingChunks) {
-        for (const chunkInfo of groundingMetadata.groundingChunks) {
-          if (chunkInfo.web) {
-            allGroundingChunks.set(chunkInfo.web.uri, chunkInfo.web.title);
-          }
+      const parser = createEnvelopeParser();
+      for await (const chunk of response) {
+        receivedChunks = true;
+        if (chunk.usage) usage = chunk.usage;
+        chunk.searchQueries?.forEach((query) => searchQueries.add(query));
+        if (chunk.text) {
+          outputText += chunk.text;
+          yield* parser.push(chunk.text);
+        }
+        // Collect grounding sources reported with each chunk
+        for (const source of chunk.groundingSources ?? []) {
+          allGroundingChunks.set(source.uri, source.title);
         }
       }
-    }
 
-    // After the stream is complete, if we have collected any sources, yield them as a final HTML block.
-    if (allGroundingChunks.size > 0) {
-      let sourcesHtml =
-        '<div class="llm-container mt-4 border-t pt-2"><h3 class="llm-title text-base">Sources</h3><ul class="list-disc list-inside">';
-      allGroundingChunks.forEach((title, uri) => {
-        // Sanitize URI and title before inserting into HTML
-        const safeUri = encodeURI(uri);
-        const safeTitle = title
-          ? title.replace(/</g, '&lt;').replace(/>/g, '&gt;')
-          : safeUri;
-        sourcesHtml += `<li class="llm-text text-sm ml-2"><a href="${safeUri}" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:underline">${safeTitle}</a></li>`;
-      });
-      sourcesHtml += '</ul></div>';
-      yield sourcesHtml;
-    }
-  } catch (error) {
-    console.error('Error streaming from Gemini:', error);
-    let errorMessage = 'An error occurred while generating content.';
-    // Check if error is an instance of Error and has a message property
-    if (error instanceof Error && typeof error.message === 'string') {
-      errorMessage += ` Details: ${error.message}`;
-    } else if (
-      typeof error === 'object' &&
-      error !== null &&
-      'message' in error &&
-      typeof (error as any).message === 'string'
-    ) {
-      // Handle cases where error might be an object with a message property (like the API error object)
-      errorMessage += ` Details: ${(error as any).message}`;
-    } else if (typeof error === 'string') {
-      errorMessage += ` Details: ${error}`;
+      yield* parser.finish();
+
+      // After the stream is complete, if we have collected any sources, yield them as a final HTML block.
+      if (allGroundingChunks.size > 0) {
+        let sourcesHtml =
+          '<div class="llm-container mt-4 border-t pt-2"><h3 class="llm-title text-base">Sources</h3><ul class="list-disc list-inside">';
+        allGroundingChunks.forEach((title, uri) => {
+          // Sanitize URI and title before inserting into HTML
+          const safeUri = encodeURI(uri);
+          const safeTitle = title
+            ? title.replace(/</g, '&lt;').replace(/>/g, '&gt;')
+            : safeUri;
+          sourcesHtml += `<li class="llm-text text-sm ml-2"><a href="${safeUri}" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:underline">${safeTitle}</a></li>`;
+        });
+        sourcesHtml += '</ul></div>';
+        yield {type: 'html', html: sourcesHtml};
+      }
+      return;
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      if (
+        receivedChunks ||
+        attempt >= retryOptions.maxAttempts ||
+        !isTransientError(error)
+      ) {
+        console.error(`Error streaming from ${provider.label}:`, error);
+        throw error;
+      }
+      const delayMs = getBackoffDelay(attempt, retryOptions);
+      console.warn(
+        `Transient error from ${provider.label}, retrying in ${delayMs}ms:`,
+        error,
+      );
+      yield {
+        type: 'retry',
+        attempt: attempt + 1,
+        maxAttempts: retryOptions.maxAttempts,
+        delayMs,
+        reason: describeError(error),
+      };
+      await sleep(delayMs, options.signal);
+    } finally {
+      // Anything streamed was billed, whether the stream finished, failed or was cancelled.
+      if (receivedChunks) {
+        recordUsage({
+          kind: options.usageKind ?? 'screen',
+          appId: currentInteraction.appContext,
+          model,
+          providerId: provider.id,
+          latencyMs: performance.now() - startedAt,
+          usage: usage ?? estimateUsage(fullPrompt, outputText),
+          searchQueries: searchQueries.size,
+          estimated: !usage,
+        });
+      }
     }
-
-    yield `<div class="p-4 text-red-700 bg-red-100 rounded-lg">
-      <p class="font-bold text-lg">Error Generating Content</p>
-      <p class="mt-2">${errorMessage}</p>
-      <p class="mt-1">This may be due to an API key issue, network problem, or misconfiguration. Please check the developer console for more details.</p>
-    </div>`;
   }
 }
\ No newline at end of file
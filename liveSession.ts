@@ -0,0 +1,457 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {LiveServerMessage} from '@google/genai';
+import {connectLiveSession, recordLiveSessionUsage} from './geminiService';
+import {LiveSession} from './modelProvider';
+import {RetryOptions, getBackoffDelay, sleep} from './retry';
+
+// Real-time voice conversations for AI Studio's Voice mode. One session runs
+// at a time, tied to the window that started it. An AudioWorklet captures the
+// microphone as 16kHz 16-bit PCM and streams it to the Live API; the model's
+// 24kHz replies are scheduled back to back and cut off as soon as the user
+// talks over them. Both sides are transcribed as they speak. A dropped
+// connection is reopened a few times before the session gives up, and
+// stopping releases the microphone, the audio contexts and the connection.
+// The session's usage is recorded when it ends.
+
+export const LIVE_MODELS = [
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-live-2.5-flash-preview',
+];
+
+export const LIVE_VOICES = [
+  'Zephyr',
+  'Puck',
+  'Charon',
+  'Kore',
+  'Fenrir',
+  'Aoede',
+  'Leda',
+  'Orus',
+];
+
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+/** Samples per chunk sent to the model: 100ms of audio. */
+const CAPTURE_CHUNK_SAMPLES = 1600;
+const MAX_TRANSCRIPT_ENTRIES = 200;
+/** maxAttempts counts reconnects after each drop, not the first connection. */
+const RECONNECT_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+  backoffFactor: 2,
+};
+
+// Runs on the audio thread and posts each full chunk as an ArrayBuffer of
+// 16-bit PCM. Loaded from a blob: URL, so it is plain JavaScript.
+const CAPTURE_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.chunk = new Int16Array(${CAPTURE_CHUNK_SAMPLES});
+    this.length = 0;
+  }
+  process(inputs) {
+    const samples = inputs[0] && inputs[0][0];
+    if (!samples) return true;
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      this.chunk[this.length++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+      if (this.length === this.chunk.length) {
+        this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+        this.chunk = new Int16Array(${CAPTURE_CHUNK_SAMPLES});
+        this.length = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export type LiveSessionStatus =
+  | 'connecting'
+  | 'listening'
+  | 'reconnecting'
+  | 'failed';
+
+export interface LiveTranscriptEntry {
+  id: number;
+  speaker: 'user' | 'model';
+  text: string;
+  /** The user talked over the model before it finished. */
+  interrupted?: boolean;
+}
+
+export interface LiveSessionOptions {
+  model: string;
+  voiceName: string;
+}
+
+export interface LiveSessionState extends LiveSessionOptions {
+  windowId: string;
+  status: LiveSessionStatus;
+  /** Whether the model's reply is playing. */
+  isModelSpeaking: boolean;
+  transcript: LiveTranscriptEntry[];
+  /** Why the session failed, when status is 'failed'. */
+  error?: string;
+}
+
+/** The audio and connection behind the running session. */
+interface ActiveSession {
+  options: LiveSessionOptions;
+  appId: string | null;
+  /** When the first connection opened; null until then and once recorded. */
+  connectedAt: number | null;
+  /** Seconds of the model's reply received so far. */
+  spokenSeconds: number;
+  stopped: boolean;
+  stream: MediaStream | null;
+  inputContext: AudioContext;
+  outputContext: AudioContext;
+  capture: AudioWorkletNode | null;
+  connection: LiveSession | null;
+  /** When the next chunk of the model's reply starts, in output context time. */
+  nextStartTime: number;
+  playing: Set<AudioBufferSourceNode>;
+  /** The speaker whose last transcript entry is still being added to. */
+  openSpeaker: LiveTranscriptEntry['speaker'] | null;
+}
+
+const listeners = new Set<() => void>();
+let state: LiveSessionState | null = null;
+let active: ActiveSession | null = null;
+let nextEntryId = 1;
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function update(session: ActiveSession, changes: Partial<LiveSessionState>) {
+  if (session !== active || !state) return;
+  state = {...state, ...changes};
+  notify();
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Decodes the model's base64 16-bit mono PCM into a playable buffer. */
+function toAudioBuffer(base64: string, context: AudioContext): AudioBuffer {
+  const binary = atob(base64);
+  const samples = new Int16Array(binary.length >> 1);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = binary.charCodeAt(2 * i) | (binary.charCodeAt(2 * i + 1) << 8);
+  }
+  const buffer = context.createBuffer(1, samples.length, OUTPUT_SAMPLE_RATE);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) {
+    channel[i] = samples[i] / 32768;
+  }
+  return buffer;
+}
+
+function playAudio(session: ActiveSession, base64: string) {
+  const {outputContext} = session;
+  const source = outputContext.createBufferSource();
+  source.buffer = toAudioBuffer(base64, outputContext);
+  source.connect(outputContext.destination);
+  // Chunks play back to back; after a pause the next one starts right away.
+  session.nextStartTime = Math.max(
+    session.nextStartTime,
+    outputContext.currentTime,
+  );
+  source.start(session.nextStartTime);
+  session.nextStartTime += source.buffer.duration;
+  session.spokenSeconds += source.buffer.duration;
+  session.playing.add(source);
+  source.onended = () => {
+    session.playing.delete(source);
+    if (session.playing.size === 0) {
+      update(session, {isModelSpeaking: false});
+    }
+  };
+  if (!state?.isModelSpeaking) update(session, {isModelSpeaking: true});
+}
+
+function stopPlayback(session: ActiveSession) {
+  session.playing.forEach((source) => {
+    source.onended = null;
+    source.stop();
+  });
+  session.playing.clear();
+  session.nextStartTime = 0;
+}
+
+// The model stops talking as soon as it hears the user; what it had already
+// sent is dropped rather than played over them.
+function handleInterruption(session: ActiveSession) {
+  stopPlayback(session);
+  const transcript = [...(state?.transcript ?? [])];
+  const last = transcript[transcript.length - 1];
+  if (last?.speaker === 'model' && session.openSpeaker === 'model') {
+    transcript[transcript.length - 1] = {...last, interrupted: true};
+    session.openSpeaker = null;
+  }
+  update(session, {isModelSpeaking: false, transcript});
+}
+
+// Transcriptions arrive a few words at a time; they are added to the
+// speaker's current entry until the other speaker starts or the turn ends.
+function appendTranscript(
+  session: ActiveSession,
+  speaker: LiveTranscriptEntry['speaker'],
+  text: string,
+) {
+  const transcript = [...(state?.transcript ?? [])];
+  const last = transcript[transcript.length - 1];
+  if (last?.speaker === speaker && session.openSpeaker === speaker) {
+    transcript[transcript.length - 1] = {...last, text: last.text + text};
+  } else {
+    transcript.push({id: nextEntryId++, speaker, text: text.trimStart()});
+  }
+  session.openSpeaker = speaker;
+  update(session, {transcript: transcript.slice(-MAX_TRANSCRIPT_ENTRIES)});
+}
+
+function handleMessage(session: ActiveSession, message: LiveServerMessage) {
+  const content = message.serverContent;
+  if (!content) return;
+  if (content.interrupted) handleInterruption(session);
+  for (const part of content.modelTurn?.parts ?? []) {
+    if (part.inlineData?.data) playAudio(session, part.inlineData.data);
+  }
+  if (content.inputTranscription?.text) {
+    appendTranscript(session, 'user', content.inputTranscription.text);
+  }
+  if (content.outputTranscription?.text) {
+    appendTranscript(session, 'model', content.outputTranscription.text);
+  }
+  if (content.turnComplete) session.openSpeaker = null;
+}
+
+/** Opens the connection; rejects if it cannot be opened. */
+async function connect(session: ActiveSession) {
+  let connection: LiveSession | null = null;
+  let isClosed = false;
+  connection = await connectLiveSession(
+    session.options.model,
+    session.options.voiceName,
+    {
+      onmessage: (message) => {
+        if (!isClosed && !session.stopped) handleMessage(session, message);
+      },
+      onclose: () => {
+        isClosed = true;
+        // Only a connection that was up is reconnected; failures while
+        // connecting reject instead.
+        if (connection && session.connection === connection) {
+          session.connection = null;
+          if (!session.stopped) reconnect(session);
+        }
+      },
+      onerror: (error) => console.error('Live session error', error),
+    },
+  );
+  if (session.stopped) {
+    connection.close();
+    return;
+  }
+  if (isClosed) throw new Error('The live session closed as it opened.');
+  session.connection = connection;
+  session.connectedAt ??= Date.now();
+  update(session, {status: 'listening', error: undefined});
+}
+
+async function reconnect(session: ActiveSession) {
+  // Whatever was queued belongs to the lost connection's turn.
+  stopPlayback(session);
+  session.openSpeaker = null;
+  update(session, {status: 'reconnecting', isModelSpeaking: false});
+  for (let retry = 1; retry <= RECONNECT_OPTIONS.maxAttempts; retry++) {
+    await sleep(getBackoffDelay(retry, RECONNECT_OPTIONS));
+    if (session.stopped) return;
+    try {
+      await connect(session);
+      return;
+    } catch (e) {
+      console.warn(`Live session reconnect ${retry} failed`, e);
+    }
+  }
+  fail(session, 'The connection was lost and could not be restored.');
+}
+
+function release(session: ActiveSession) {
+  session.stopped = true;
+  const {connection} = session;
+  session.connection = null;
+  connection?.close();
+  session.stream?.getTracks().forEach((track) => track.stop());
+  if (session.capture) {
+    session.capture.port.onmessage = null;
+    session.capture.disconnect();
+  }
+  stopPlayback(session);
+  session.inputContext.close().catch(() => {});
+  session.outputContext.close().catch(() => {});
+  if (session.connectedAt !== null) {
+    recordLiveSessionUsage(
+      session.options.model,
+      session.appId,
+      Date.now() - session.connectedAt,
+      session.spokenSeconds,
+    );
+    session.connectedAt = null;
+  }
+}
+
+// The session stays on screen with the error until it is stopped.
+function fail(session: ActiveSession, error: string) {
+  if (session.stopped) return;
+  release(session);
+  update(session, {status: 'failed', isModelSpeaking: false, error});
+}
+
+/**
+ * Starts a voice session for `windowId`, ending any other one. Rejects if
+ * the microphone or the audio pipeline cannot be set up; connection failures
+ * are reported through the session's state instead. Usage is recorded
+ * against `appId`.
+ */
+export async function startLiveSession(
+  windowId: string,
+  appId: string | null,
+  options: LiveSessionOptions,
+): Promise<void> {
+  stopLiveSession();
+  // Created before anything is awaited, while the click still counts as a
+  // user gesture for audio playback.
+  const session: ActiveSession = {
+    options,
+    appId,
+    connectedAt: null,
+    spokenSeconds: 0,
+    stopped: false,
+    stream: null,
+    inputContext: new AudioContext({sampleRate: INPUT_SAMPLE_RATE}),
+    outputContext: new AudioContext({sampleRate: OUTPUT_SAMPLE_RATE}),
+    capture: null,
+    connection: null,
+    nextStartTime: 0,
+    playing: new Set(),
+    openSpeaker: null,
+  };
+  active = session;
+  state = {
+    ...options,
+    windowId,
+    status: 'connecting',
+    isModelSpeaking: false,
+    transcript: [],
+  };
+  notify();
+
+  try {
+    session.stream = await navigator.mediaDevices.getUserMedia({
+      audio: {echoCancellation: true, noiseSuppression: true},
+    });
+    const workletUrl = URL.createObjectURL(
+      new Blob([CAPTURE_WORKLET_SOURCE], {type: 'text/javascript'}),
+    );
+    try {
+      await session.inputContext.audioWorklet.addModule(workletUrl);
+    } finally {
+      URL.revokeObjectURL(workletUrl);
+    }
+    if (session.stopped) {
+      release(session);
+      return;
+    }
+    session.capture = new AudioWorkletNode(session.inputContext, 'pcm-capture', {
+      numberOfOutputs: 0,
+    });
+    // Audio captured while disconnected is dropped.
+    session.capture.port.onmessage = (event: MessageEvent<ArrayBuffer>) =>
+      session.connection?.sendRealtimeInput({
+        media: {
+          data: encodeBase64(new Uint8Array(event.data)),
+          mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`,
+        },
+      });
+    session.inputContext
+      .createMediaStreamSource(session.stream)
+      .connect(session.capture);
+    session.outputContext.resume().catch(() => {});
+  } catch (e) {
+    if (active === session) {
+      stopLiveSession();
+    } else {
+      release(session);
+    }
+    throw e;
+  }
+
+  try {
+    await connect(session);
+  } catch (e) {
+    console.error('Failed to open a live session', e);
+    fail(session, 'Could not connect to the voice model.');
+  }
+}
+
+/** Ends the session, if any, and returns its transcript. */
+export function stopLiveSession(): LiveTranscriptEntry[] {
+  const transcript = state?.transcript ?? [];
+  if (active) release(active);
+  active = null;
+  if (state) {
+    state = null;
+    notify();
+  }
+  return transcript;
+}
+
+/**
+ * The model and voice picked on the Voice screen, sent as the start button's
+ * value, e.g. `{"voice": "Puck", "model": "..."}`. Anything unknown falls
+ * back to the defaults.
+ */
+export function parseLiveSessionOptions(
+  value: string | undefined,
+): LiveSessionOptions {
+  let choice: {voice?: unknown; model?: unknown} = {};
+  try {
+    const parsed = JSON.parse(value ?? '{}');
+    if (typeof parsed === 'object' && parsed !== null) choice = parsed;
+  } catch (e) {
+    // Not a JSON choice; use the defaults.
+  }
+  return {
+    model: LIVE_MODELS.find((model) => model === choice.model) ?? LIVE_MODELS[0],
+    voiceName:
+      LIVE_VOICES.find((voice) => voice === choice.voice) ?? LIVE_VOICES[0],
+  };
+}
+
+/** The running session, or null. */
+export function getLiveSession(): LiveSessionState | null {
+  return state;
+}
+
+/** Calls `listener` whenever the session changes. Returns an unsubscribe function. */
+export function subscribeToLiveSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
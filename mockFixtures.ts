@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {InteractionData} from './types';
+
+// Canned screens served by the offline mock provider. They follow the same UI
+// contracts the system prompt asks of the model, so every OS-level special
+// action (installer, AI Studio, Task Handoff, ...) can be exercised offline.
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const WEB_NAV = `<div class="browser-nav"><input type="text" id="url_search_input" class="browser-input" data-interaction-id="navigate-to-url" data-interaction-on="keydown:Enter" placeholder="Ask a question or enter a URL..."><button class="browser-button" data-interaction-id="navigate-to-url" data-value-from="url_search_input">→</button></div>`;
+
+export const APP_OPEN_FIXTURES: Record<string, string> = {
+  my_computer: `<div class="llm-container"><h2 class="llm-title">System Information</h2><div class="llm-row"><span class="llm-label">Processor:</span><span class="llm-text">Mock CPU @ 3.2 GHz</span></div><div class="llm-row"><span class="llm-label">Memory:</span><span class="llm-text">16 GB</span></div><div class="llm-row"><span class="llm-label">Storage:</span><span class="llm-text">512 GB SSD</span></div><div class="llm-row"><span class="llm-label">Model provider:</span><span class="llm-text">Offline mock</span></div></div>`,
+  ai_studio_app: `<div class="llm-container"><h2 class="llm-title">AI Studio</h2><div class="grid grid-cols-3 gap-4 w-full"><div class="p-4 rounded-lg bg-purple-50 cursor-pointer" data-interaction-id="open-ai-chat"><p class="llm-text font-bold">💬 Chat</p></div><div class="p-4 rounded-lg bg-purple-50 cursor-pointer" data-interaction-id="open-ai-vision"><p class="llm-text font-bold">🎨 Vision</p></div><div class="p-4 rounded-lg bg-purple-50 cursor-pointer" data-interaction-id="open-ai-voice"><p class="llm-text font-bold">🎙️ Voice</p></div></div></div>`,
+  documents: `<div class="llm-container"><h2 class="llm-title">Documents</h2><div class="llm-row"><span>📄</span><span class="llm-text cursor-pointer" data-interaction-id="fs_open_file" data-interaction-value="/Documents/Welcome.txt">Welcome.txt</span><button class="llm-button" data-interaction-id="fs_delete_file" data-interaction-value="/Documents/Welcome.txt">Delete</button></div><div class="llm-row"><span>📁</span><span class="llm-text">Notes</span></div></div>`,
+  notepad_app: `<div class="llm-container"><h2 class="llm-title">Notepad</h2><input type="text" id="notepad_file_path" class="llm-input" value="/Documents/Untitled.txt"><textarea id="notepad_text" class="llm-textarea"></textarea><button class="llm-button" data-interaction-id="fs_save_file" data-value-from='{"path": "notepad_file_path", "content": "notepad_text"}'>Save</button></div>`,
+  settings_app: `<div class="llm-container"><h2 class="llm-title">Settings</h2><button class="llm-button" data-interaction-id="open-display-settings">Display</button><button class="llm-button" data-interaction-id="open-sound-settings">Sound</button><button class="llm-button" data-interaction-id="open-network-settings">Network</button></div>`,
+  trash_bin: `<div class="llm-container"><h2 class="llm-title">Trash Bin</h2><p class="llm-text">Deleted files appear here.</p><button class="llm-button" data-interaction-id="fs_empty_trash">Empty Trash</button></div>`,
+  web_browser_app: `${WEB_NAV}<div class="browser-content"><h2 class="llm-title">New Tab</h2><p class="llm-text">Try searching for a topic.</p><a class="text-blue-600 cursor-pointer" data-interaction-id="follow-link" data-interaction-value="Solar System">Solar System</a></div>`,
+  calculator_app: `<div class="llm-container"><h2 class="llm-title">Calculator</h2><input id="calc_display" class="llm-input" value="0"><div class="grid grid-cols-4 gap-2">${['7', '8', '9', '+', '4', '5', '6', '-', '1', '2', '3', '=']
+    .map(
+      (key) =>
+        `<button class="llm-button" data-interaction-id="calc-key" data-interaction-value="${key}">${key}</button>`,
+    )
+    .join('')}</div></div>`,
+  travel_app: `<div class="llm-container"><h2 class="llm-title">Travel</h2><button class="llm-button" data-interaction-id="plan-trip">Plan a trip</button><button class="llm-button" data-interaction-id="open-maps">Maps</button></div>`,
+  shopping_app: `<div class="llm-container"><h2 class="llm-title">Shopping Cart</h2><div class="llm-row"><span class="llm-text">Mock Headphones — $59.00</span></div><div class="llm-row"><span class="llm-text">Mock Keyboard — $89.00</span></div><button class="llm-button" data-interaction-id="checkout">Checkout</button></div>`,
+  gaming_app: `<div class="llm-container"><h2 class="llm-title">Games</h2><button class="llm-button" data-interaction-id="play-tic-tac-toe">Tic-Tac-Toe</button><button class="llm-button" data-interaction-id="play-snake">Snake</button></div>`,
+  terminal_app: `<div class="terminal"><div class="terminal-output"><div class="terminal-line">MichaelWalshOS mock shell</div></div><div class="terminal-form"><span class="terminal-prompt">$</span><input id="terminal_input" class="terminal-input"><button class="hidden" data-interaction-id="run-command" data-value-from="terminal_input">Run</button></div></div>`,
+  installer_app: `<div class="llm-container"><h2 class="llm-title">App Installer</h2><input type="text" id="new_app_name_input" class="llm-input" placeholder="App name"><textarea id="new_app_description_input" class="llm-textarea" placeholder="Description"></textarea><textarea id="new_app_instructions_input" class="llm-textarea" placeholder="Instructions (optional)"></textarea><button class="llm-button" data-interaction-id="install_new_app_action" data-value-from='{"appName": "new_app_name_input", "appDescription": "new_app_description_input", "appInstructions": "new_app_instructions_input"}'>Install App</button><button class="llm-button" data-interaction-id="import_app_action">Import App…</button></div>`,
+  task_handoff_app: `<div class="llm-container"><h2 class="llm-title">Task Handoff</h2><textarea id="task_description_input" class="llm-textarea" placeholder="Describe your task"></textarea><button class="llm-button" data-interaction-id="submit_task_description" data-value-from="task_description_input">Submit Task</button></div>`,
+};
+
+export const INTERACTION_FIXTURES: Record<string, string> = {
+  'open-ai-chat': `<div class="llm-container"><h2 class="llm-title">Chat</h2><div class="chat-bubble-ai">Hello! I am the offline mock assistant.</div><input id="chat_input" class="llm-input"><button class="llm-button" data-interaction-id="send-chat-message" data-value-from="chat_input">Send</button></div>`,
+  'open-ai-vision': `<div class="llm-container"><h2 class="llm-title">Vision</h2><textarea id="vision_prompt" class="llm-textarea" placeholder="Describe the image or video you want to create..."></textarea><select id="vision_aspect_ratio" class="llm-input"><option value="1:1">Square (1:1)</option><option value="16:9">Landscape (16:9)</option><option value="9:16">Portrait (9:16)</option></select><button class="llm-button" data-interaction-id="generate_imagen_action" data-value-from='{"prompt": "vision_prompt", "aspectRatio": "vision_aspect_ratio"}'>Generate Image</button><button class="llm-button" data-interaction-id="generate_veo_action" data-value-from='{"prompt": "vision_prompt", "aspectRatio": "vision_aspect_ratio"}'>Generate Video</button></div>`,
+  'open-ai-voice': `<div class="llm-container items-center"><h2 class="llm-title">Voice</h2><select id="live_voice" class="llm-input"><option value="Zephyr">Zephyr</option><option value="Puck">Puck</option><option value="Kore">Kore</option></select><select id="live_model" class="llm-input"><option value="gemini-2.5-flash-native-audio-preview-09-2025">Native audio</option><option value="gemini-live-2.5-flash-preview">Live 2.5 Flash</option></select><button class="llm-button" data-interaction-id="start-live-session" data-value-from='{"voice": "live_voice", "model": "live_model"}'>Start Live Session</button></div>`,
+};
+
+/** Builds a screen for interactions that have no dedicated fixture. */
+export function renderGenericFixture(interaction: InteractionData): string {
+  const label = escapeHtml(interaction.elementText || interaction.id);
+  const value = interaction.value
+    ? `<p class="llm-text">Value: <code>${escapeHtml(interaction.value.substring(0, 200))}</code></p>`
+    : '';
+  return `<div class="llm-container"><h2 class="llm-title">${label}</h2><p class="llm-text">This screen was served by the offline mock provider for interaction <code>${escapeHtml(interaction.id)}</code>.</p>${value}<button class="llm-button" data-interaction-id="mock-continue">Continue</button></div>`;
+}
+
+/** Wraps fixture HTML in the response envelope the system prompt asks for. */
+export function renderEnvelope(
+  html: string,
+  meta: {title?: string; state?: unknown},
+): string {
+  return `<os-meta>${JSON.stringify(meta)}</os-meta><os-html>${html}</os-html>`;
+}
+
+export const MOCK_ICONS = ['📦', '🧩', '🛠️', '📊', '🎯', '🧪', '📚', '🎵'];
+
+/** Small deterministic string hash (djb2) so fixtures vary by input but never between runs. */
+export function hashString(text: string): number {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+const ASPECT_RATIO_SIZES: Record<string, [number, number]> = {
+  '1:1': [512, 512],
+  '16:9': [640, 360],
+  '9:16': [360, 640],
+};
+
+export function getFixtureSize(aspectRatio: string): [number, number] {
+  return ASPECT_RATIO_SIZES[aspectRatio] ?? ASPECT_RATIO_SIZES['1:1'];
+}
+
+/** Renders a placeholder image for a prompt as an SVG data URL. */
+export function renderImageFixture(prompt: string, aspectRatio: string): string {
+  const [width, height] = getFixtureSize(aspectRatio);
+  const hue = hashString(prompt) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,60%)"/><stop offset="1" stop-color="hsl(${(hue + 120) % 360},70%,40%)"/></linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/><text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="20" text-anchor="middle">${escapeHtml(prompt.substring(0, 40))}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
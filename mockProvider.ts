@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {LiveServerMessage} from '@google/genai';
+import {
+  APP_OPEN_FIXTURES,
+  INTERACTION_FIXTURES,
+  MOCK_ICONS,
+  getFixtureSize,
+  hashString,
+  renderEnvelope,
+  renderGenericFixture,
+  renderImageFixture,
+} from './mockFixtures';
+import {
+  ContentChunk,
+  ContentRequest,
+  ContentResult,
+  LiveConnectRequest,
+  LiveSession,
+  MediaRequest,
+  MediaResult,
+  ModelProvider,
+} from './modelProvider';
+import {sleep} from './retry';
+import {estimateUsage} from './usageTracker';
+
+const MOCK_STREAM_CHUNK_SIZE = 120;
+const MOCK_STREAM_DELAY_MS = 15;
+const MOCK_VIDEO_DURATION_MS = 1500;
+
+function renderScreen(request: ContentRequest): string {
+  if (request.context.kind !== 'screen') {
+    return '';
+  }
+  const {interaction} = request.context;
+  const html =
+    (interaction.type === 'app_open'
+      ? APP_OPEN_FIXTURES[interaction.id]
+      : INTERACTION_FIXTURES[interaction.id]) ??
+    renderGenericFixture(interaction);
+  return renderEnvelope(html, {
+    title: interaction.elementText || interaction.id,
+    state: {lastInteractionId: interaction.id},
+  });
+}
+
+/** Encodes a short sine "chime" as 16-bit PCM at 24kHz, the Live API output format. */
+function createChimePcmBase64(): string {
+  const sampleRate = 24000;
+  const samples = new Int16Array(sampleRate / 4);
+  for (let i = 0; i < samples.length; i++) {
+    const fade = 1 - i / samples.length;
+    samples[i] = Math.sin((2 * Math.PI * 660 * i) / sampleRate) * 8000 * fade;
+  }
+  let binary = '';
+  const bytes = new Uint8Array(samples.buffer);
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/** Records a short animated canvas so the Veo flow has a real, playable video offline. */
+async function renderVideoFixture({
+  prompt,
+  aspectRatio,
+}: MediaRequest): Promise<MediaResult> {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('MediaRecorder is not available in this environment');
+  }
+  const [width, height] = getFixtureSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const hue = hashString(prompt) % 360;
+
+  const recorder = new MediaRecorder(canvas.captureStream(30));
+  const parts: BlobPart[] = [];
+  recorder.ondataavailable = (event) => parts.push(event.data);
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+
+  recorder.start();
+  const start = performance.now();
+  while (performance.now() - start < MOCK_VIDEO_DURATION_MS) {
+    const progress = (performance.now() - start) / MOCK_VIDEO_DURATION_MS;
+    ctx.fillStyle = `hsl(${(hue + progress * 120) % 360},70%,50%)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = 'white';
+    ctx.font = '20px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(prompt.substring(0, 40), width / 2, height / 2);
+    await sleep(1000 / 30);
+  }
+  recorder.stop();
+  await stopped;
+  return {url: URL.createObjectURL(new Blob(parts, {type: 'video/webm'}))};
+}
+
+/**
+ * Creates a deterministic provider that serves canned screens and media from
+ * mockFixtures.ts, so the desktop can be developed and demoed without an API
+ * key or network access.
+ */
+export function createMockProvider(): ModelProvider {
+  return {
+    id: 'mock',
+    label: 'Offline mock',
+    getConfigurationError: () => null,
+
+    async *streamContent(request: ContentRequest): AsyncIterable<ContentChunk> {
+      const html = renderScreen(request);
+      for (let i = 0; i < html.length; i += MOCK_STREAM_CHUNK_SIZE) {
+        await sleep(MOCK_STREAM_DELAY_MS, request.signal);
+        const end = i + MOCK_STREAM_CHUNK_SIZE;
+        yield {
+          text: html.substring(i, end),
+          usage: estimateUsage(request.prompt, html.substring(0, end)),
+        };
+      }
+    },
+
+    async generateContent(request: ContentRequest): Promise<ContentResult> {
+      const {context} = request;
+      const text =
+        context.kind === 'app_icon'
+          ? MOCK_ICONS[hashString(context.appName) % MOCK_ICONS.length]
+          : context.kind === 'terminal_command'
+            ? `${context.command.split(/\s/)[0]}: answered by the mock shell`
+            : renderScreen(request);
+      return {text, usage: estimateUsage(request.prompt, text)};
+    },
+
+    async generateImage({
+      prompt,
+      aspectRatio,
+    }: MediaRequest): Promise<MediaResult> {
+      return {url: renderImageFixture(prompt, aspectRatio)};
+    },
+
+    generateVideo: renderVideoFixture,
+
+    async connectLive({callbacks}: LiveConnectRequest): Promise<LiveSession> {
+      let closed = false;
+      // Open asynchronously, like a real socket, so callers can store the session first.
+      setTimeout(() => {
+        if (closed) return;
+        callbacks.onopen?.();
+        callbacks.onmessage({
+          serverContent: {
+            modelTurn: {
+              parts: [
+                {
+                  inlineData: {
+                    data: createChimePcmBase64(),
+                    mimeType: 'audio/pcm;rate=24000',
+                  },
+                },
+              ],
+            },
+            outputTranscription: {text: 'This is the offline test chime.'},
+            turnComplete: true,
+          },
+        } as LiveServerMessage);
+      }, 0);
+      return {
+        sendRealtimeInput: () => {},
+        close: () => {
+          if (closed) return;
+          closed = true;
+          callbacks.onclose?.();
+        },
+      };
+    },
+  };
+}
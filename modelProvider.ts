@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {Blob, LiveServerMessage} from '@google/genai';
+import {createGeminiProvider} from './geminiProvider';
+import {createMockProvider} from './mockProvider';
+import {createProxyProvider} from './proxyProvider';
+import {InteractionData} from './types';
+
+export type ModelProviderId = 'gemini' | 'mock' | 'proxy';
+
+/** Tools a provider may hand to the model while it answers a request. */
+export type ModelTool = 'google_search';
+
+/**
+ * Describes what a content request is for. The Gemini provider only needs the
+ * prompt, but offline providers use this to pick a deterministic fixture.
+ */
+export type ContentRequestContext =
+  | {kind: 'screen'; interaction: InteractionData}
+  | {kind: 'app_icon'; appName: string; appDescription: string}
+  | {kind: 'terminal_command'; command: string};
+
+/** A file sent to the model alongside the prompt text. */
+export interface ContentAttachment {
+  mimeType: string;
+  /** Base64-encoded contents. */
+  data: string;
+}
+
+export interface ContentRequest {
+  model: string;
+  prompt: string;
+  tools?: ModelTool[];
+  /** Sent after the prompt, in order; providers without file support ignore them. */
+  attachments?: ContentAttachment[];
+  context: ContentRequestContext;
+  /** Aborts the request; providers reject with an AbortError. */
+  signal?: AbortSignal;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  /** Tokens spent on tool results fed back to the model, e.g. search grounding. */
+  toolUseTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+}
+
+export interface ContentChunk {
+  text?: string;
+  groundingSources?: GroundingSource[];
+  /** Search queries the model ran while grounding this chunk. */
+  searchQueries?: string[];
+  /** Cumulative usage so far; the last chunk that carries it has the totals. */
+  usage?: TokenUsage;
+}
+
+export interface ContentResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface MediaResult {
+  /** A URL (data: or blob:) usable as an image or video source. */
+  url: string;
+  usage?: TokenUsage;
+}
+
+export interface MediaRequest {
+  prompt: string;
+  aspectRatio: string;
+}
+
+export interface LiveSessionCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onclose?: () => void;
+  onerror?: (error: unknown) => void;
+}
+
+export interface LiveConnectRequest {
+  model: string;
+  voiceName: string;
+  callbacks: LiveSessionCallbacks;
+}
+
+export interface LiveSession {
+  sendRealtimeInput(input: {media: Blob}): void;
+  close(): void;
+}
+
+/**
+ * A backend capable of serving every model call the OS makes. Prompt
+ * construction stays in geminiService.ts; providers only perform the calls.
+ */
+export interface ModelProvider {
+  /** One of ModelProviderId for built-in providers; wrappers may use their own. */
+  readonly id: string;
+  readonly label: string;
+  /** Returns why the provider cannot serve requests, or null when it is ready. */
+  getConfigurationError(): string | null;
+  streamContent(request: ContentRequest): AsyncIterable<ContentChunk>;
+  generateContent(request: ContentRequest): Promise<ContentResult>;
+  generateImage(request: MediaRequest): Promise<MediaResult>;
+  generateVideo(request: MediaRequest): Promise<MediaResult>;
+  connectLive(request: LiveConnectRequest): Promise<LiveSession>;
+}
+
+const PROVIDER_FACTORIES: Record<ModelProviderId, () => ModelProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+  proxy: createProxyProvider,
+};
+
+export const MODEL_PROVIDER_IDS = Object.keys(
+  PROVIDER_FACTORIES,
+) as ModelProviderId[];
+
+function isModelProviderId(value: unknown): value is ModelProviderId {
+  return (
+    typeof value === 'string' &&
+    (MODEL_PROVIDER_IDS as string[]).includes(value)
+  );
+}
+
+/**
+ * Picks the provider to start with. A `?provider=` query parameter wins over
+ * the MODEL_PROVIDER build variable so a deployed build can still be demoed
+ * offline; Gemini is the default.
+ */
+function resolveInitialProviderId(): ModelProviderId {
+  if (typeof window !== 'undefined') {
+    const fromQuery = new URLSearchParams(window.location.search).get(
+      'provider',
+    );
+    if (isModelProviderId(fromQuery)) return fromQuery;
+  }
+  if (isModelProviderId(process.env.MODEL_PROVIDER)) {
+    return process.env.MODEL_PROVIDER;
+  }
+  return 'gemini';
+}
+
+let activeProvider: ModelProvider | null = null;
+
+export function getModelProvider(): ModelProvider {
+  if (!activeProvider) {
+    activeProvider = PROVIDER_FACTORIES[resolveInitialProviderId()]();
+  }
+  return activeProvider;
+}
+
+/** Replaces the active provider, either by id or with a custom instance. */
+export function setModelProvider(
+  provider: ModelProviderId | ModelProvider,
+): ModelProvider {
+  activeProvider =
+    typeof provider === 'string' ? PROVIDER_FACTORIES[provider]() : provider;
+  return activeProvider;
+}
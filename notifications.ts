@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Short-lived notifications shown above the taskbar, posted by apps through
+// `os.notify`. Only the most recent few are kept; each dismisses itself.
+
+export interface OsNotification {
+  id: number;
+  appId: string;
+  title: string;
+  message: string;
+}
+
+const MAX_VISIBLE = 3;
+const NOTIFICATION_DURATION_MS = 6000;
+const MAX_MESSAGE_LENGTH = 200;
+
+const listeners = new Set<() => void>();
+let notifications: OsNotification[] = [];
+let nextId = 1;
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function showNotification(
+  appId: string,
+  title: string,
+  message: string,
+): void {
+  const notification: OsNotification = {
+    id: nextId++,
+    appId,
+    title,
+    message: message.substring(0, MAX_MESSAGE_LENGTH),
+  };
+  notifications = [...notifications, notification].slice(-MAX_VISIBLE);
+  setTimeout(
+    () => dismissNotification(notification.id),
+    NOTIFICATION_DURATION_MS,
+  );
+  notify();
+}
+
+export function dismissNotification(id: number): void {
+  if (!notifications.some((notification) => notification.id === id)) return;
+  notifications = notifications.filter(
+    (notification) => notification.id !== id,
+  );
+  notify();
+}
+
+/** The notifications on screen, oldest first. */
+export function getNotifications(): OsNotification[] {
+  return notifications;
+}
+
+/** Calls `listener` whenever notifications change. Returns an unsubscribe function. */
+export function subscribeToNotifications(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {
+  CAPABILITY_INFO,
+  SPECIAL_ACTION_CAPABILITIES,
+  declaresCapability,
+  requestCapability,
+} from './capabilities';
+import {RateLimiter, createRateLimiter} from './proxy/rateLimiter';
+import {AppDefinition, InteractionData} from './types';
+import {
+  DOCUMENTS_PATH,
+  listDirectory,
+  normalizePath,
+  readFile,
+  writeFile,
+} from './virtualFs';
+
+// The `window.os` API that generated scripts call from their sandboxed frame
+// (see sandboxRuntime.ts). Each call arrives as an untrusted message naming a
+// method and its arguments; this module checks both, and the calling app's
+// permissions, before doing anything. Bump OS_SCRIPT_API_VERSION whenever a
+// method changes in a way scripts would notice.
+
+export const OS_SCRIPT_API_VERSION = 1;
+
+export const OS_SCRIPT_METHODS = [
+  'storage.get',
+  'storage.set',
+  'storage.remove',
+  'storage.keys',
+  'files.read',
+  'files.write',
+  'files.list',
+  'openApp',
+  'notify',
+  'emit',
+] as const;
+
+export type OsScriptMethod = (typeof OS_SCRIPT_METHODS)[number];
+
+/** What a call may do on behalf of the app whose screen made it. */
+export interface OsScriptContext {
+  app: AppDefinition;
+  apps: AppDefinition[];
+  openApp: (app: AppDefinition) => void;
+  notify: (title: string, message: string) => void;
+  /** Sends an interaction to the model as if the user had clicked it. */
+  emit: (interaction: InteractionData) => void;
+  onFilesChanged: () => void;
+}
+
+const APP_STORAGE_KEY_PREFIX = 'os.appData.v1.';
+/** Characters of JSON each app may keep in its storage. */
+const MAX_APP_STORAGE_SIZE = 100_000;
+const MAX_KEY_LENGTH = 100;
+const MAX_TEXT_LENGTH = 200;
+const MAX_VALUE_LENGTH = 10_000;
+
+/** Interactions the OS acts on itself; scripts leave these to the user's clicks. */
+const OS_HANDLED_INTERACTION_IDS = [
+  ...Object.keys(SPECIAL_ACTION_CAPABILITIES),
+  'stop-live-session',
+  'install_new_app_action',
+  'export_app_action',
+  'import_app_action',
+  'app_close_button',
+];
+
+// Calls that reach beyond the app's own window, per app. Each emit is a
+// model call, so it is held to the same pace.
+const openAppLimiter = createRateLimiter(5, 60_000);
+const notifyLimiter = createRateLimiter(5, 60_000);
+const emitLimiter = createRateLimiter(5, 60_000);
+
+export function isOsHandledInteraction(id: string): boolean {
+  return OS_HANDLED_INTERACTION_IDS.includes(id);
+}
+
+/**
+ * Whether the user has just clicked or typed in this page or one of its
+ * frames. A screen's scripts can post any message, but cannot fake this.
+ */
+export function hasUserActivation(): boolean {
+  return navigator.userActivation?.isActive === true;
+}
+
+function requireWithinLimit(
+  limiter: RateLimiter,
+  app: AppDefinition,
+  method: OsScriptMethod,
+) {
+  const {allowed, retryAfterMs} = limiter.take(app.id);
+  if (!allowed) {
+    throw new Error(
+      `os.${method} was called too often. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+    );
+  }
+}
+
+function requireString(value: unknown, name: string, maxLength: number): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`${name} must be a non-empty string.`);
+  }
+  if (value.length > maxLength) {
+    throw new Error(`${name} is longer than ${maxLength} characters.`);
+  }
+  return value;
+}
+
+// --- Storage ---
+
+function readAppStorage(appId: string): Record<string, unknown> {
+  try {
+    const raw = localStorage.getItem(APP_STORAGE_KEY_PREFIX + appId);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error(`Failed to read storage for ${appId}:`, e);
+    return {};
+  }
+}
+
+function writeAppStorage(appId: string, data: Record<string, unknown>) {
+  const json = JSON.stringify(data);
+  if (json.length > MAX_APP_STORAGE_SIZE) {
+    throw new Error(
+      `Storage is limited to ${MAX_APP_STORAGE_SIZE} characters per app.`,
+    );
+  }
+  localStorage.setItem(APP_STORAGE_KEY_PREFIX + appId, json);
+}
+
+/** Forgets everything an app saved through `os.storage`, e.g. on uninstall. */
+export function clearAppStorage(appId: string): void {
+  try {
+    localStorage.removeItem(APP_STORAGE_KEY_PREFIX + appId);
+  } catch (e) {
+    console.error(`Failed to clear storage for ${appId}:`, e);
+  }
+}
+
+// --- Files ---
+
+/** Resolves a path relative to Documents, keeping absolute paths as they are. */
+function resolvePath(path: unknown): string {
+  const target = requireString(path, 'path', MAX_TEXT_LENGTH).trim();
+  return normalizePath(
+    target.startsWith('/') ? target : `${DOCUMENTS_PATH}/${target}`,
+  );
+}
+
+async function requireFileAccess(app: AppDefinition) {
+  const {label} = CAPABILITY_INFO.persistent_storage;
+  if (!declaresCapability(app, 'persistent_storage')) {
+    throw new Error(`${app.name} does not declare the "${label}" capability.`);
+  }
+  if (!(await requestCapability(app, 'persistent_storage'))) {
+    throw new Error(`${app.name} is not allowed to use "${label}".`);
+  }
+}
+
+/**
+ * Performs a `window.os` call for the app in `context` and resolves to its
+ * result. Rejects with a message for the script if the call is malformed or
+ * not allowed.
+ */
+export async function handleOsCall(
+  method: string,
+  args: unknown[],
+  context: OsScriptContext,
+): Promise<unknown> {
+  const {app} = context;
+  switch (method as OsScriptMethod) {
+    case 'storage.get':
+      return (
+        readAppStorage(app.id)[requireString(args[0], 'key', MAX_KEY_LENGTH)] ??
+        null
+      );
+    case 'storage.set': {
+      const key = requireString(args[0], 'key', MAX_KEY_LENGTH);
+      if (args[1] === undefined) throw new Error('value is required.');
+      writeAppStorage(app.id, {...readAppStorage(app.id), [key]: args[1]});
+      return null;
+    }
+    case 'storage.remove': {
+      const data = readAppStorage(app.id);
+      delete data[requireString(args[0], 'key', MAX_KEY_LENGTH)];
+      writeAppStorage(app.id, data);
+      return null;
+    }
+    case 'storage.keys':
+      return Object.keys(readAppStorage(app.id));
+    case 'files.read':
+      await requireFileAccess(app);
+      return (await readFile(resolvePath(args[0]))).content ?? '';
+    case 'files.write': {
+      await requireFileAccess(app);
+      if (typeof args[1] !== 'string') {
+        throw new Error('content must be a string.');
+      }
+      const node = await writeFile(resolvePath(args[0]), args[1]);
+      context.onFilesChanged();
+      return node.path;
+    }
+    case 'files.list': {
+      await requireFileAccess(app);
+      const dir = args[0] === undefined ? DOCUMENTS_PATH : resolvePath(args[0]);
+      return (await listDirectory(dir)).map(
+        ({path, type, size, modifiedAt}) => ({path, type, size, modifiedAt}),
+      );
+    }
+    case 'openApp': {
+      const id = requireString(args[0], 'appId', MAX_KEY_LENGTH);
+      const target = context.apps.find((def) => def.id === id);
+      if (!target) throw new Error(`No installed app has the id "${id}".`);
+      if (!hasUserActivation()) {
+        throw new Error('os.openApp can only be called in response to a click.');
+      }
+      requireWithinLimit(openAppLimiter, app, 'openApp');
+      context.openApp(target);
+      return null;
+    }
+    case 'notify': {
+      const message = requireString(args[0], 'message', MAX_TEXT_LENGTH);
+      requireWithinLimit(notifyLimiter, app, 'notify');
+      context.notify(app.name, message);
+      return null;
+    }
+    case 'emit': {
+      const interaction = args[0] as Record<string, unknown> | undefined;
+      if (typeof interaction !== 'object' || interaction === null) {
+        throw new Error('emit takes an object such as {id, type, value}.');
+      }
+      const id = requireString(interaction.id, 'id', MAX_KEY_LENGTH);
+      if (isOsHandledInteraction(id)) {
+        throw new Error(`"${id}" can only be triggered by the user.`);
+      }
+      const {value} = interaction;
+      if (value !== undefined && typeof value !== 'string') {
+        throw new Error('value must be a string.');
+      }
+      requireWithinLimit(emitLimiter, app, 'emit');
+      context.emit({
+        id,
+        type:
+          interaction.type === undefined
+            ? 'script_event'
+            : requireString(interaction.type, 'type', MAX_KEY_LENGTH),
+        value: (value as string | undefined)?.substring(0, MAX_VALUE_LENGTH),
+        elementType: 'script',
+        elementText: '',
+        appContext: app.id,
+      });
+      return null;
+    }
+    default:
+      throw new Error(`os.${method} is not a function.`);
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {SPECIAL_ACTION_CAPABILITIES} from './capabilities';
+import {MAX_HISTORY_LENGTH} from './constants';
+import {cacheScreen, hasCachedScreen, isCacheable} from './contentCache';
+import {streamAppContent} from './geminiService';
+import {getModelProvider} from './modelProvider';
+import {createEmptyScreenMeta} from './responseEnvelope';
+import {isAbortError} from './retry';
+import {AppDefinition, InteractionData, ScreenMeta} from './types';
+import {getBudgetStatus, getTokensToday} from './usageTracker';
+
+// Speculative prefetch. Once a screen has rendered and the user pauses, the
+// most likely next screens (folder links, hub cards, suggested actions) are
+// generated in the background and put in the content cache, so following
+// them is instant. Prefetching is off by default and capped per screen and
+// per day; anything that changes data or needs typed input is never
+// prefetched. Only one screen's prefetches run at a time.
+
+export interface PrefetchSettings {
+  enabled: boolean;
+  /** Screens generated ahead of time after each screen the user sees. */
+  maxPerScreen: number;
+  /** Tokens per calendar day spent on prefetching; null for no limit. */
+  dailyTokenLimit: number | null;
+}
+
+/** The screen the user is looking at, from which next screens are predicted. */
+export interface PrefetchSource {
+  app: AppDefinition;
+  apps: AppDefinition[];
+  /** Interactions that led to this screen, newest first. */
+  history: InteractionData[];
+  path: string[];
+  content: string;
+  meta: ScreenMeta;
+  appState: unknown;
+}
+
+const PREFETCH_STORAGE_KEY = 'os.prefetch.v1';
+const DEFAULT_SETTINGS: PrefetchSettings = {
+  enabled: false,
+  maxPerScreen: 2,
+  dailyTokenLimit: 200_000,
+};
+export const MAX_PREFETCH_PER_SCREEN = 5;
+/** How long the user must stay on a screen before prefetching starts. */
+const PREFETCH_DELAY_MS = 1500;
+const MAX_ELEMENT_TEXT_LENGTH = 75;
+
+/**
+ * Interaction ids for OS actions (install, export, close, live session) and
+ * for commits the user should see generated on purpose; never prefetched.
+ */
+const SIDE_EFFECT_PATTERN =
+  /delete|remove|trash|empty|restore|rename|save|send|submit|buy|purchase|checkout|pay|install|export|import|upload|download|close|live|generate|reset|clear|logout|sign[-_]?out/i;
+/** Hints that an element navigates to another view of the same app. */
+const NAVIGATION_PATTERN =
+  /open|view|show|folder|nav|link|card|tab|browse|details|select|go[-_]/i;
+
+const listeners = new Set<() => void>();
+let currentRun: AbortController | null = null;
+
+export function getPrefetchSettings(): PrefetchSettings {
+  try {
+    const raw = localStorage.getItem(PREFETCH_STORAGE_KEY);
+    return {...DEFAULT_SETTINGS, ...(raw ? JSON.parse(raw) : {})};
+  } catch (e) {
+    console.error(
+      `Failed to read ${PREFETCH_STORAGE_KEY} from localStorage:`,
+      e,
+    );
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function setPrefetchSettings(settings: PrefetchSettings): void {
+  try {
+    localStorage.setItem(PREFETCH_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error(
+      `Failed to write ${PREFETCH_STORAGE_KEY} to localStorage:`,
+      e,
+    );
+  }
+  if (!settings.enabled) cancelPrefetch();
+  listeners.forEach((listener) => listener());
+}
+
+/** Calls `listener` whenever the settings change. Returns an unsubscribe function. */
+export function subscribeToPrefetchSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const isSafeToPrefetch = (id: string) =>
+  !SPECIAL_ACTION_CAPABILITIES[id] && !SIDE_EFFECT_PATTERN.test(id);
+
+/**
+ * The interactions on a screen worth prefetching, most likely first:
+ * suggested actions, then elements that look like navigation, then the rest
+ * in document order. Menus, inputs, forms, elements that do not react to
+ * clicks and anything reading typed values are skipped.
+ */
+export function findPrefetchCandidates(
+  html: string,
+  meta: ScreenMeta,
+  appId: string,
+): InteractionData[] {
+  const candidates: {interaction: InteractionData; score: number}[] = [];
+  const seen = new Set<string>();
+  const add = (interaction: InteractionData, score: number) => {
+    if (seen.has(interaction.id) || !isSafeToPrefetch(interaction.id)) return;
+    seen.add(interaction.id);
+    candidates.push({interaction, score});
+  };
+
+  for (const action of meta.suggestedActions) {
+    add(
+      {
+        id: action.id,
+        type: 'suggested_action',
+        value: action.value,
+        elementType: 'button',
+        elementText: action.label,
+        appContext: appId,
+      },
+      3,
+    );
+  }
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const elements = doc.querySelectorAll<HTMLElement>('[data-interaction-id]');
+  for (const element of Array.from(elements)) {
+    const {
+      interactionId,
+      interactionType,
+      interactionValue,
+      interactionOn,
+      valueFrom,
+    } = element.dataset;
+    // Only plain clicks are predictable; typed and keyed events are not.
+    const isClickable = interactionOn
+      ? interactionOn.split('|').some((trigger) => trigger.trim() === 'click')
+      : element.tagName !== 'FORM';
+    if (
+      !interactionId ||
+      valueFrom ||
+      !isClickable ||
+      element.closest('[data-app-menu]') ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)
+    ) {
+      continue;
+    }
+    const looksLikeNavigation =
+      NAVIGATION_PATTERN.test(interactionId) ||
+      NAVIGATION_PATTERN.test(interactionType ?? '');
+    add(
+      {
+        id: interactionId,
+        type: interactionType || 'generic_click',
+        value: interactionValue,
+        elementType: element.tagName.toLowerCase(),
+        elementText: (element.textContent ?? '')
+          .trim()
+          .replace(/\s+/g, ' ')
+          .substring(0, MAX_ELEMENT_TEXT_LENGTH),
+        appContext: appId,
+      },
+      looksLikeNavigation ? 2 : 1,
+    );
+  }
+
+  // Stable sort keeps document order within each score.
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .map(({interaction}) => interaction);
+}
+
+function canSpend(settings: PrefetchSettings): boolean {
+  return (
+    !getModelProvider().getConfigurationError() &&
+    !getBudgetStatus().exceeded &&
+    (settings.dailyTokenLimit === null ||
+      getTokensToday('prefetch') < settings.dailyTokenLimit)
+  );
+}
+
+async function generateScreen(
+  source: PrefetchSource,
+  interaction: InteractionData,
+  signal: AbortSignal,
+) {
+  let html = '';
+  let meta = createEmptyScreenMeta();
+  const stream = streamAppContent(
+    [interaction, ...source.history.slice(0, MAX_HISTORY_LENGTH - 1)],
+    MAX_HISTORY_LENGTH,
+    source.content,
+    null,
+    source.appState,
+    {signal, apps: source.apps, usageKind: 'prefetch'},
+  );
+  for await (const event of stream) {
+    if (event.type === 'html') html += event.html;
+    if (event.type === 'meta') meta = event.meta;
+  }
+  if (html && !signal.aborted) {
+    cacheScreen(source.app, [...source.path, interaction.id], {html, meta});
+  }
+}
+
+/** Resolves once the user has paused and the browser is idle, or on abort. */
+function whenIdle(signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      if (typeof requestIdleCallback === 'function') {
+        requestIdleCallback(() => resolve());
+      } else {
+        resolve();
+      }
+    }, PREFETCH_DELAY_MS);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/** Stops any prefetching in progress, e.g. because the user moved on. */
+export function cancelPrefetch(): void {
+  currentRun?.abort();
+  currentRun = null;
+}
+
+/**
+ * Prefetches the likely next screens of `source` in the background,
+ * replacing any earlier run. Failures are logged and otherwise ignored.
+ */
+export async function schedulePrefetch(source: PrefetchSource): Promise<void> {
+  cancelPrefetch();
+  const settings = getPrefetchSettings();
+  if (!settings.enabled || !isCacheable(source.app) || !source.content) return;
+  const run = new AbortController();
+  currentRun = run;
+
+  await whenIdle(run.signal);
+  if (run.signal.aborted) return;
+  const candidates = findPrefetchCandidates(
+    source.content,
+    source.meta,
+    source.app.id,
+  )
+    .filter(
+      (interaction) =>
+        !hasCachedScreen(source.app, [...source.path, interaction.id]),
+    )
+    .slice(0, settings.maxPerScreen);
+
+  for (const interaction of candidates) {
+    if (run.signal.aborted || !canSpend(settings)) break;
+    try {
+      await generateScreen(source, interaction, run.signal);
+    } catch (e) {
+      if (isAbortError(e)) break;
+      console.warn(`Failed to prefetch "${interaction.id}":`, e);
+    }
+  }
+  if (currentRun === run) currentRun = null;
+}
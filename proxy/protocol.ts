@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {Blob, LiveServerMessage} from '@google/genai';
+import {ContentRequest} from '../modelProvider';
+
+// The wire format between the browser's proxy provider (proxyProvider.ts) and
+// the proxy server (proxy/server.ts). Bodies are JSON; streamed content is
+// newline-delimited JSON, one ContentChunk per line; live audio runs over a
+// WebSocket. Failures are reported as {error} with a matching HTTP status.
+
+export const PROXY_ROUTES = {
+  content: '/api/content',
+  stream: '/api/content/stream',
+  image: '/api/image',
+  video: '/api/video',
+  videoStatus: '/api/video/status',
+  videoContent: '/api/video/content',
+  live: '/api/live',
+} as const;
+
+export type ProxyContentRequest = Omit<ContentRequest, 'signal'>;
+
+export interface ProxyVideoStatus {
+  /** Opaque id to poll with; only operations started through the proxy are known. */
+  operation: string;
+  done: boolean;
+  error?: string;
+}
+
+export interface ProxyErrorBody {
+  error: string;
+}
+
+/** Messages from the browser over the live socket; 'setup' comes first. */
+export type ProxyLiveClientMessage =
+  | {type: 'setup'; model: string; voiceName: string}
+  | {type: 'input'; media: Blob};
+
+/** Messages from the proxy over the live socket. */
+export type ProxyLiveServerMessage =
+  | {type: 'open'}
+  | {type: 'message'; message: LiveServerMessage}
+  | {type: 'error'; error: string};
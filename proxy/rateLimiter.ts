@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Per-client token buckets: each client may make `limit` requests at once
+// and regains them at `limit` per `windowMs`. Idle buckets are dropped.
+
+const MAX_TRACKED_CLIENTS = 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** How long until the next request would be allowed; 0 if allowed now. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take(clientId: string, now?: number): RateLimitResult;
+}
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const buckets = new Map<string, {tokens: number; updatedAt: number}>();
+  const refillPerMs = limit / windowMs;
+
+  const prune = (now: number) => {
+    for (const [clientId, bucket] of buckets) {
+      if (now - bucket.updatedAt > windowMs) buckets.delete(clientId);
+    }
+  };
+
+  return {
+    take(clientId, now = Date.now()) {
+      if (buckets.size > MAX_TRACKED_CLIENTS) prune(now);
+      const bucket = buckets.get(clientId) ?? {tokens: limit, updatedAt: now};
+      bucket.tokens = Math.min(
+        limit,
+        bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+      );
+      bucket.updatedAt = now;
+      buckets.set(clientId, bucket);
+      if (bucket.tokens < 1) {
+        return {
+          allowed: false,
+          retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs),
+        };
+      }
+      bucket.tokens -= 1;
+      return {allowed: true, retryAfterMs: 0};
+    },
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {IncomingMessage, ServerResponse, createServer} from 'node:http';
+import {Readable} from 'node:stream';
+import {ReadableStream} from 'node:stream/web';
+import {WebSocket, WebSocketServer} from 'ws';
+import {LiveSession} from '../modelProvider';
+import {describeError, isAbortError} from '../retry';
+import {PROXY_ROUTES, ProxyLiveServerMessage} from './protocol';
+import {createRateLimiter} from './rateLimiter';
+import {ProxyUpstreamId, createUpstream} from './upstream';
+import {
+  httpError,
+  parseContentRequest,
+  parseJsonObject,
+  parseLiveClientMessage,
+  parseMediaRequest,
+} from './validation';
+
+// A small local server that holds the Gemini API key and forwards the OS's
+// model calls, so the key is never part of the browser bundle. Run it with
+// `npm run proxy` and start the app with MODEL_PROVIDER=proxy; see README.
+//
+// Settings come from the environment or .env.local:
+//   GEMINI_API_KEY          the key, required unless PROXY_UPSTREAM=stub
+//   PROXY_PORT              port to listen on (8787)
+//   PROXY_UPSTREAM          'gemini' (default) or 'stub' for canned answers
+//   PROXY_ALLOWED_ORIGINS   comma-separated origins allowed to call the proxy
+//   PROXY_RATE_LIMIT        model calls per client per minute (30)
+//   PROXY_TRUSTED_PROXIES   comma-separated addresses whose X-Forwarded-For
+//                           is believed (loopback, i.e. the Vite dev server)
+
+try {
+  process.loadEnvFile('.env.local');
+} catch (e) {
+  // No .env.local: use the environment as it is.
+}
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const UPSTREAM_ID: ProxyUpstreamId =
+  process.env.PROXY_UPSTREAM === 'stub' ? 'stub' : 'gemini';
+const ALLOWED_ORIGINS = (
+  process.env.PROXY_ALLOWED_ORIGINS ||
+  'http://localhost:5173,http://localhost:4173'
+)
+  .split(',')
+  .map((origin) => origin.trim());
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT || 30);
+const RATE_LIMIT_WINDOW_MS = 60_000;
+// A video is polled every 5 seconds while it renders.
+const VIDEO_POLL_RATE_LIMIT = 60;
+const TRUSTED_PROXIES = (
+  process.env.PROXY_TRUSTED_PROXIES || '127.0.0.1,::1,::ffff:127.0.0.1'
+)
+  .split(',')
+  .map((address) => address.trim());
+// Room for a screen prompt plus its file attachments.
+const MAX_BODY_SIZE = 16_000_000;
+const MAX_LIVE_MESSAGE_SIZE = 1_000_000;
+
+const upstream = createUpstream(UPSTREAM_ID, process.env.GEMINI_API_KEY);
+const rateLimiter = createRateLimiter(RATE_LIMIT, RATE_LIMIT_WINDOW_MS);
+const videoPollLimiter = createRateLimiter(
+  VIDEO_POLL_RATE_LIMIT,
+  RATE_LIMIT_WINDOW_MS,
+);
+
+/**
+ * The browser's address. Behind the Vite dev server every request comes from
+ * loopback, so the address that server forwards is used instead; other
+ * clients cannot choose their own.
+ */
+function getClientId(req: IncomingMessage): string {
+  const address = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (typeof forwarded !== 'string' || !TRUSTED_PROXIES.includes(address)) {
+    return address;
+  }
+  // The last hop is the one the trusted proxy added.
+  return forwarded.split(',').pop()!.trim() || address;
+}
+
+// Browsers send Origin on every POST and WebSocket request, so only plain
+// GETs may leave it out.
+const isAllowedOrigin = (req: IncomingMessage) =>
+  req.headers.origin
+    ? ALLOWED_ORIGINS.includes(req.headers.origin)
+    : req.method === 'GET' && req.headers.upgrade === undefined;
+
+/** Model calls share one budget; video polling, a looser one. */
+function checkRateLimit(req: IncomingMessage) {
+  const limiter = req.method === 'GET' ? videoPollLimiter : rateLimiter;
+  const {allowed, retryAfterMs} = limiter.take(getClientId(req));
+  if (!allowed) {
+    throw Object.assign(
+      httpError(429, 'Too many requests to the API proxy; try again shortly.'),
+      {retryAfterMs},
+    );
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(
+  req: IncomingMessage,
+): Promise<Record<string, unknown>> {
+  if (!req.headers['content-type']?.startsWith('application/json')) {
+    throw httpError(415, 'Expected a JSON body.');
+  }
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) throw httpError(413, 'Body is too large.');
+  }
+  return parseJsonObject(body);
+}
+
+/** Aborted when the browser goes away before the response is complete. */
+function abortOnClose(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const operation = url.searchParams.get('operation') ?? '';
+  checkRateLimit(req);
+
+  if (req.method === 'POST' && url.pathname === PROXY_ROUTES.content) {
+    const request = parseContentRequest(await readJson(req));
+    const result = await upstream.provider.generateContent({
+      ...request,
+      signal: abortOnClose(res),
+    });
+    sendJson(res, 200, result);
+  } else if (req.method === 'POST' && url.pathname === PROXY_ROUTES.stream) {
+    const request = parseContentRequest(await readJson(req));
+    const signal = abortOnClose(res);
+    const stream = upstream.provider.streamContent({...request, signal});
+    res.writeHead(200, {'Content-Type': 'application/x-ndjson'});
+    try {
+      for await (const chunk of stream) {
+        res.write(`${JSON.stringify(chunk)}\n`);
+      }
+    } catch (e) {
+      if (signal.aborted || isAbortError(e)) return;
+      console.error('Streaming request failed:', e);
+      // Headers are already sent; the client raises this line as an error.
+      res.write(`${JSON.stringify({error: describeError(e)})}\n`);
+    }
+    res.end();
+  } else if (req.method === 'POST' && url.pathname === PROXY_ROUTES.image) {
+    const request = parseMediaRequest(await readJson(req));
+    sendJson(res, 200, await upstream.provider.generateImage(request));
+  } else if (req.method === 'POST' && url.pathname === PROXY_ROUTES.video) {
+    const request = parseMediaRequest(await readJson(req));
+    sendJson(res, 200, await upstream.startVideo(request));
+  } else if (req.method === 'GET' && url.pathname === PROXY_ROUTES.videoStatus) {
+    sendJson(res, 200, await upstream.getVideo(operation));
+  } else if (
+    req.method === 'GET' &&
+    url.pathname === PROXY_ROUTES.videoContent
+  ) {
+    const video = await upstream.downloadVideo(operation);
+    if (!video.ok || !video.body) {
+      throw httpError(502, 'Failed to download video content');
+    }
+    res.writeHead(200, {
+      'Content-Type': video.headers.get('Content-Type') ?? 'video/mp4',
+    });
+    // DOM and Node declare ReadableStream separately; they are the same at runtime.
+    Readable.fromWeb(video.body as ReadableStream<Uint8Array>).pipe(res);
+  } else {
+    throw httpError(404, `No route for ${req.method} ${url.pathname}.`);
+  }
+}
+
+const server = createServer((req, res) => {
+  const {origin} = req.headers;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(isAllowedOrigin(req) ? 204 : 403, {
+      'Access-Control-Allow-Methods': 'GET, POST',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+  if (!isAllowedOrigin(req)) {
+    sendJson(res, 403, {error: `Origin ${origin} is not allowed.`});
+    return;
+  }
+  handleRequest(req, res).catch((e) => {
+    const status = (e as {status?: number}).status ?? 500;
+    if (status === 500) console.error(`${req.method} ${req.url} failed:`, e);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    const retryAfterMs = (e as {retryAfterMs?: number}).retryAfterMs;
+    if (retryAfterMs) {
+      res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+    }
+    sendJson(res, status, {error: describeError(e)});
+  });
+});
+
+// --- Live audio ---
+
+const liveServer = new WebSocketServer({
+  noServer: true,
+  maxPayload: MAX_LIVE_MESSAGE_SIZE,
+});
+
+server.on('upgrade', (req, socket, head) => {
+  const {pathname} = new URL(req.url ?? '/', 'http://localhost');
+  const reject = (status: string) => {
+    socket.end(`HTTP/1.1 ${status}\r\n\r\n`);
+  };
+  if (pathname !== PROXY_ROUTES.live) return reject('404 Not Found');
+  if (!isAllowedOrigin(req)) return reject('403 Forbidden');
+  if (!rateLimiter.take(getClientId(req)).allowed) {
+    return reject('429 Too Many Requests');
+  }
+  liveServer.handleUpgrade(req, socket, head, (ws) => relayLiveSession(ws));
+});
+
+/**
+ * Connects upstream once the browser sends 'setup', then relays both ways.
+ * Each socket gets one upstream session; a second 'setup' closes the socket.
+ */
+function relayLiveSession(ws: WebSocket) {
+  let session: LiveSession | null = null;
+  // Set before connecting, so setups sent meanwhile cannot open more sessions.
+  let isSetUp = false;
+  const send = (message: ProxyLiveServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  ws.on('message', async (data) => {
+    const message = parseLiveClientMessage(data.toString());
+    if (!message) {
+      ws.close(1003, 'Expected a valid setup or input message.');
+      return;
+    }
+    if (message.type === 'input') {
+      // Audio sent while the upstream is still connecting is dropped.
+      session?.sendRealtimeInput({media: message.media});
+    } else if (isSetUp) {
+      ws.close(1008, 'The session is already set up.');
+    } else {
+      isSetUp = true;
+      try {
+        session = await upstream.provider.connectLive({
+          model: message.model,
+          voiceName: message.voiceName,
+          callbacks: {
+            onopen: () => send({type: 'open'}),
+            onmessage: (serverMessage) =>
+              send({type: 'message', message: serverMessage}),
+            onclose: () => ws.close(),
+            onerror: (e) => send({type: 'error', error: describeError(e)}),
+          },
+        });
+        // The browser may have gone while the upstream was connecting.
+        if (ws.readyState !== WebSocket.OPEN) session.close();
+      } catch (e) {
+        console.error('Failed to open a live session:', e);
+        send({type: 'error', error: describeError(e)});
+        ws.close();
+      }
+    }
+  });
+  ws.on('close', () => session?.close());
+}
+
+server.listen(PORT, () => {
+  console.log(
+    `API proxy (${upstream.label}) listening on http://localhost:${PORT}, allowing ${ALLOWED_ORIGINS.join(', ')}`,
+  );
+});
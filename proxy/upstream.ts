@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {GenerateVideosOperation, GoogleGenAI} from '@google/genai';
+import {
+  VIDEO_MODEL,
+  createGeminiProvider,
+  toVideoConfig,
+} from '../geminiProvider';
+import {createMockProvider} from '../mockProvider';
+import {MediaRequest, ModelProvider} from '../modelProvider';
+import {ProxyVideoStatus} from './protocol';
+
+// Where the proxy sends requests. Content, streaming, images and live audio
+// go through the same ModelProvider the browser would use; videos are
+// long-running operations, so they are started, polled and downloaded in
+// separate steps. The stub upstream answers from the mock provider, for
+// testing the proxy without a key or network access.
+
+export interface ProxyUpstream {
+  label: string;
+  provider: ModelProvider;
+  startVideo(request: MediaRequest): Promise<ProxyVideoStatus>;
+  getVideo(operation: string): Promise<ProxyVideoStatus>;
+  /** The finished video's bytes, from the upstream response. */
+  downloadVideo(operation: string): Promise<Response>;
+}
+
+export type ProxyUpstreamId = 'gemini' | 'stub';
+
+/** Videos started through the proxy; the key never leaves it. */
+type VideoRegistry = Map<string, {uri?: string}>;
+
+function requireVideo(videos: VideoRegistry, operation: string) {
+  const video = videos.get(operation);
+  if (!video) {
+    throw Object.assign(new Error(`Unknown video operation "${operation}".`), {
+      status: 404,
+    });
+  }
+  return video;
+}
+
+function createGeminiUpstream(apiKey: string): ProxyUpstream {
+  // The Gemini provider reads its key from process.env.API_KEY, as the
+  // browser build does.
+  process.env.API_KEY = apiKey;
+  const ai = new GoogleGenAI({apiKey});
+  const videos: VideoRegistry = new Map();
+
+  const toStatus = (operation: GenerateVideosOperation): ProxyVideoStatus => {
+    const name = operation.name!;
+    const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (uri) videos.set(name, {uri});
+    const error = operation.error?.message;
+    return {
+      operation: name,
+      done: !!operation.done,
+      error:
+        typeof error === 'string'
+          ? error
+          : operation.done && !uri
+            ? 'No video generated'
+            : undefined,
+    };
+  };
+
+  return {
+    label: 'Gemini API',
+    provider: createGeminiProvider(),
+
+    async startVideo({prompt, aspectRatio}) {
+      const operation = await ai.models.generateVideos({
+        model: VIDEO_MODEL,
+        prompt,
+        config: toVideoConfig(aspectRatio),
+      });
+      if (!operation.name) throw new Error('Video generation did not start.');
+      videos.set(operation.name, {});
+      return toStatus(operation);
+    },
+
+    async getVideo(name) {
+      requireVideo(videos, name);
+      const operation = new GenerateVideosOperation();
+      operation.name = name;
+      return toStatus(await ai.operations.getVideosOperation({operation}));
+    },
+
+    async downloadVideo(name) {
+      const {uri} = requireVideo(videos, name);
+      if (!uri) throw new Error(`Video "${name}" is not ready.`);
+      // Sent as a header rather than in the URL, so it stays out of logs.
+      return fetch(uri, {headers: {'x-goog-api-key': apiKey}});
+    },
+  };
+}
+
+/** A few bytes standing in for a video; enough to exercise the download path. */
+const STUB_VIDEO_BYTES = new TextEncoder().encode('stub video');
+
+function createStubUpstream(): ProxyUpstream {
+  const videos: VideoRegistry = new Map();
+  let nextId = 1;
+  return {
+    label: 'Stub (mock fixtures)',
+    provider: createMockProvider(),
+
+    async startVideo() {
+      const operation = `stub-video-${nextId++}`;
+      videos.set(operation, {});
+      return {operation, done: false};
+    },
+
+    // Finishes on the first poll.
+    async getVideo(operation) {
+      requireVideo(videos, operation).uri = operation;
+      return {operation, done: true};
+    },
+
+    async downloadVideo(operation) {
+      if (!requireVideo(videos, operation).uri) {
+        throw new Error(`Video "${operation}" is not ready.`);
+      }
+      return new Response(STUB_VIDEO_BYTES, {
+        headers: {'Content-Type': 'video/mp4'},
+      });
+    },
+  };
+}
+
+export function createUpstream(
+  id: ProxyUpstreamId,
+  apiKey: string | undefined,
+): ProxyUpstream {
+  if (id === 'stub') return createStubUpstream();
+  if (!apiKey) {
+    throw new Error(
+      'GEMINI_API_KEY is not set. Set it in .env.local, or run with PROXY_UPSTREAM=stub.',
+    );
+  }
+  return createGeminiUpstream(apiKey);
+}
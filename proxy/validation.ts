@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {TEXT_MODEL} from '../geminiProvider';
+import {LIVE_MODELS, LIVE_VOICES} from '../liveSession';
+import {ContentRequestContext, ModelTool} from '../modelProvider';
+import {InteractionData} from '../types';
+import {ProxyContentRequest, ProxyLiveClientMessage} from './protocol';
+
+// Checks every body and live message the proxy receives before anything is
+// sent upstream. Clients may only use the models the OS itself asks for, so
+// the proxy's key cannot be spent on others; anything malformed is a 400.
+
+const CONTENT_MODELS = [TEXT_MODEL];
+const MODEL_TOOLS: ModelTool[] = ['google_search'];
+const LIVE_INPUT_MIME_TYPE = /^audio\/pcm(;rate=\d+)?$/;
+
+/** Rejected with this to answer with a status other than 500. */
+export const httpError = (status: number, message: string) =>
+  Object.assign(new Error(message), {status});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isAttachment = (
+  value: unknown,
+): value is {mimeType: string; data: string} =>
+  isObject(value) && isString(value.mimeType) && isString(value.data);
+
+const isModelTool = (value: unknown): value is ModelTool =>
+  MODEL_TOOLS.includes(value as ModelTool);
+
+const isInteraction = (value: unknown): value is InteractionData =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.type) &&
+  isString(value.elementType) &&
+  isString(value.elementText) &&
+  (value.appContext === null || isString(value.appContext)) &&
+  (value.value === undefined || isString(value.value));
+
+function parseContext(context: unknown): ContentRequestContext | null {
+  if (!isObject(context)) return null;
+  switch (context.kind) {
+    case 'screen':
+      return isInteraction(context.interaction)
+        ? {kind: 'screen', interaction: context.interaction}
+        : null;
+    case 'app_icon':
+      return isString(context.appName) && isString(context.appDescription)
+        ? {
+            kind: 'app_icon',
+            appName: context.appName,
+            appDescription: context.appDescription,
+          }
+        : null;
+    case 'terminal_command':
+      return isString(context.command)
+        ? {kind: 'terminal_command', command: context.command}
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function parseContentRequest(
+  body: Record<string, unknown>,
+): ProxyContentRequest {
+  const {model, prompt, tools, attachments} = body;
+  const context = parseContext(body.context);
+  if (
+    !isString(model) ||
+    !isString(prompt) ||
+    !context ||
+    (tools !== undefined &&
+      !(Array.isArray(tools) && tools.every(isModelTool))) ||
+    (attachments !== undefined &&
+      !(Array.isArray(attachments) && attachments.every(isAttachment)))
+  ) {
+    throw httpError(400, 'Expected {model, prompt, tools?, attachments?, context}.');
+  }
+  if (!CONTENT_MODELS.includes(model)) {
+    throw httpError(
+      400,
+      `The model "${model}" is not available through this proxy.`,
+    );
+  }
+  return {
+    model,
+    prompt,
+    tools: tools as ModelTool[] | undefined,
+    attachments: (attachments as {mimeType: string; data: string}[] | undefined)
+      ?.map(({mimeType, data}) => ({mimeType, data})),
+    context,
+  };
+}
+
+export function parseMediaRequest(body: Record<string, unknown>) {
+  const {prompt, aspectRatio} = body;
+  if (!isString(prompt) || !isString(aspectRatio)) {
+    throw httpError(400, 'Expected {prompt, aspectRatio}.');
+  }
+  return {prompt, aspectRatio};
+}
+
+/** Parses a live socket message, or returns null if it is not a valid one. */
+export function parseLiveClientMessage(
+  text: string,
+): ProxyLiveClientMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch (e) {
+    return null;
+  }
+  if (!isObject(message)) return null;
+  if (message.type === 'setup') {
+    const {model, voiceName} = message;
+    return isString(model) &&
+      LIVE_MODELS.includes(model) &&
+      isString(voiceName) &&
+      LIVE_VOICES.includes(voiceName)
+      ? {type: 'setup', model, voiceName}
+      : null;
+  }
+  if (message.type === 'input') {
+    const {media} = message;
+    return isObject(media) &&
+      isString(media.data) &&
+      isString(media.mimeType) &&
+      LIVE_INPUT_MIME_TYPE.test(media.mimeType)
+      ? {type: 'input', media: {data: media.data, mimeType: media.mimeType}}
+      : null;
+  }
+  return null;
+}
+
+/** Parses a JSON request body; throws a 400 unless it is an object. */
+export function parseJsonObject(body: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(body);
+    if (isObject(parsed)) return parsed;
+  } catch (e) {
+    // Reported below.
+  }
+  throw httpError(400, 'Body is not a JSON object.');
+}
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {
+  ContentChunk,
+  ContentRequest,
+  ContentResult,
+  LiveConnectRequest,
+  LiveSession,
+  MediaRequest,
+  MediaResult,
+  ModelProvider,
+} from './modelProvider';
+import {
+  PROXY_ROUTES,
+  ProxyContentRequest,
+  ProxyErrorBody,
+  ProxyLiveClientMessage,
+  ProxyLiveServerMessage,
+  ProxyVideoStatus,
+} from './proxy/protocol';
+import {sleep} from './retry';
+
+const VIDEO_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Where the proxy is. By default requests go to this page's own origin,
+ * where the Vite dev server forwards /api to the proxy (see vite.config.ts).
+ */
+const getProxyUrl = (route: string) =>
+  new URL(route, process.env.PROXY_URL || window.location.href);
+
+/** Raises the proxy's error with its HTTP status, so retry.ts can classify it. */
+async function toError(response: Response): Promise<Error> {
+  let message = `API proxy request failed (${response.status})`;
+  try {
+    const body: ProxyErrorBody = await response.json();
+    if (body.error) message = body.error;
+  } catch (e) {
+    // Not a JSON error body; keep the generic message.
+  }
+  return Object.assign(new Error(message), {status: response.status});
+}
+
+async function request(
+  route: string,
+  init: {body?: unknown; signal?: AbortSignal} = {},
+): Promise<Response> {
+  const response = await fetch(getProxyUrl(route), {
+    method: init.body === undefined ? 'GET' : 'POST',
+    headers:
+      init.body === undefined ? undefined : {'Content-Type': 'application/json'},
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    signal: init.signal,
+  });
+  if (!response.ok) throw await toError(response);
+  return response;
+}
+
+const toProxyRequest = ({
+  model,
+  prompt,
+  tools,
+  attachments,
+  context,
+}: ContentRequest): ProxyContentRequest => ({
+  model,
+  prompt,
+  tools,
+  attachments,
+  context,
+});
+
+/**
+ * Creates a provider that sends every model call to the local API proxy
+ * (proxy/server.ts), which holds the Gemini API key. Nothing secret is in
+ * the browser.
+ */
+export function createProxyProvider(): ModelProvider {
+  return {
+    id: 'proxy',
+    label: 'Gemini API (via proxy)',
+    getConfigurationError: () => null,
+
+    async *streamContent(
+      contentRequest: ContentRequest,
+    ): AsyncIterable<ContentChunk> {
+      const response = await request(PROXY_ROUTES.stream, {
+        body: toProxyRequest(contentRequest),
+        signal: contentRequest.signal,
+      });
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = '';
+      try {
+        while (true) {
+          const {value, done} = await reader.read();
+          if (done) break;
+          buffered += value;
+          const lines = buffered.split('\n');
+          buffered = lines.pop()!;
+          for (const line of lines) {
+            if (!line) continue;
+            const chunk: ContentChunk & Partial<ProxyErrorBody> =
+              JSON.parse(line);
+            if (chunk.error) throw new Error(chunk.error);
+            yield chunk;
+          }
+        }
+      } finally {
+        reader.cancel().catch(() => {});
+      }
+    },
+
+    async generateContent(
+      contentRequest: ContentRequest,
+    ): Promise<ContentResult> {
+      const response = await request(PROXY_ROUTES.content, {
+        body: toProxyRequest(contentRequest),
+        signal: contentRequest.signal,
+      });
+      return response.json();
+    },
+
+    async generateImage(mediaRequest: MediaRequest): Promise<MediaResult> {
+      const response = await request(PROXY_ROUTES.image, {body: mediaRequest});
+      return response.json();
+    },
+
+    async generateVideo(mediaRequest: MediaRequest): Promise<MediaResult> {
+      let status: ProxyVideoStatus = await (
+        await request(PROXY_ROUTES.video, {body: mediaRequest})
+      ).json();
+      const query = `?operation=${encodeURIComponent(status.operation)}`;
+      while (!status.done) {
+        await sleep(VIDEO_POLL_INTERVAL_MS);
+        status = await (
+          await request(PROXY_ROUTES.videoStatus + query)
+        ).json();
+      }
+      if (status.error) throw new Error(status.error);
+      const video = await request(PROXY_ROUTES.videoContent + query);
+      return {url: URL.createObjectURL(await video.blob())};
+    },
+
+    connectLive({
+      model,
+      voiceName,
+      callbacks,
+    }: LiveConnectRequest): Promise<LiveSession> {
+      const url = getProxyUrl(PROXY_ROUTES.live);
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(url);
+      const send = (message: ProxyLiveClientMessage) => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify(message));
+        }
+      };
+      const session: LiveSession = {
+        sendRealtimeInput: ({media}) => send({type: 'input', media}),
+        close: () => socket.close(),
+      };
+
+      // Settles once the upstream session is open, like the Gemini SDK's connect.
+      return new Promise((resolve, reject) => {
+        let isOpen = false;
+        socket.onopen = () => send({type: 'setup', model, voiceName});
+        socket.onmessage = (event) => {
+          const message: ProxyLiveServerMessage = JSON.parse(event.data);
+          if (message.type === 'open') {
+            isOpen = true;
+            resolve(session);
+            callbacks.onopen?.();
+          } else if (message.type === 'message') {
+            callbacks.onmessage(message.message);
+          } else if (isOpen) {
+            callbacks.onerror?.(new Error(message.error));
+          } else {
+            reject(new Error(message.error));
+          }
+        };
+        socket.onerror = () => {
+          const error = new Error('The live connection to the API proxy failed.');
+          if (isOpen) {
+            callbacks.onerror?.(error);
+          } else {
+            reject(error);
+          }
+        };
+        socket.onclose = () => {
+          if (isOpen) {
+            callbacks.onclose?.();
+          } else {
+            reject(new Error('The API proxy closed the live connection.'));
+          }
+        };
+      });
+    },
+  };
+}
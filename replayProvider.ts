@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {createMockProvider} from './mockProvider';
+import {ContentRequest, ModelProvider} from './modelProvider';
+import {sleep} from './retry';
+import {
+  SessionEvent,
+  SessionRecording,
+  toReplayedError,
+} from './sessionRecorder';
+
+/** Upper bound for a single recorded pause, so slow sessions replay briskly. */
+const MAX_REPLAY_CHUNK_DELAY_MS = 1000;
+
+function describeRequest({context}: ContentRequest): string {
+  switch (context.kind) {
+    case 'screen':
+      return `interaction "${context.interaction.id}"`;
+    case 'app_icon':
+      return `icon for "${context.appName}"`;
+    case 'terminal_command':
+      return `terminal command "${context.command}"`;
+  }
+}
+
+function warnOnDivergence(recorded: ContentRequest, actual: ContentRequest) {
+  if (recorded.prompt !== actual.prompt) {
+    console.warn(
+      `Replay diverged: the prompt for ${describeRequest(actual)} differs from the recording.`,
+      {recorded: recorded.prompt, actual: actual.prompt},
+    );
+  }
+}
+
+type RecordedCall = Extract<SessionEvent, {type: 'stream' | 'generate'}>;
+
+/**
+ * Creates a provider that answers content requests with the responses stored
+ * in a session recording, in the order they were recorded, without making any
+ * model calls. Each kind of request (screens, app icons, terminal commands)
+ * has its own queue, so a call the replay does not repeat, such as a
+ * terminal command, cannot shift the answers to the others. Media and live
+ * audio fall back to the mock provider.
+ */
+export function createReplayProvider(
+  recording: SessionRecording,
+): ModelProvider {
+  const mock = createMockProvider();
+  const queues = new Map<string, RecordedCall[]>();
+  const queueKey = (type: RecordedCall['type'], request: ContentRequest) =>
+    `${type}:${request.context.kind}`;
+  for (const event of recording.events) {
+    if (event.type === 'interaction') continue;
+    const key = queueKey(event.type, event.request);
+    queues.set(key, [...(queues.get(key) ?? []), event]);
+  }
+
+  function take<T extends RecordedCall['type']>(
+    type: T,
+    request: ContentRequest,
+  ): Extract<RecordedCall, {type: T}> {
+    const recorded = queues.get(queueKey(type, request))?.shift();
+    if (!recorded) {
+      throw new Error(
+        `Replay exhausted: no recorded response for ${describeRequest(request)}.`,
+      );
+    }
+    warnOnDivergence(recorded.request, request);
+    return recorded as Extract<RecordedCall, {type: T}>;
+  }
+
+  return {
+    ...mock,
+    id: 'replay',
+    label: 'Session replay',
+
+    async *streamContent(request: ContentRequest) {
+      const recorded = take('stream', request);
+      for (const {delayMs, ...chunk} of recorded.chunks) {
+        await sleep(
+          Math.min(delayMs, MAX_REPLAY_CHUNK_DELAY_MS),
+          request.signal,
+        );
+        yield chunk;
+      }
+      if (recorded.error) throw toReplayedError(recorded.error);
+    },
+
+    async generateContent(request: ContentRequest) {
+      const recorded = take('generate', request);
+      if (recorded.error) throw toReplayedError(recorded.error);
+      return recorded.result!;
+    },
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {ScreenMeta, SuggestedAction} from './types';
+
+// The model is asked to answer with an envelope of two tagged sections:
+//
+//   <os-meta>{"title": "...", "state": {...}, "suggestedActions": [...], "warnings": [...]}</os-meta>
+//   <os-html> ...the screen's HTML... </os-html>
+//
+// The parser below consumes the stream incrementally so the HTML section can
+// be rendered while it is still arriving. Sections may come in either order,
+// and responses that ignore the envelope entirely are treated as bare HTML.
+
+const META_OPEN = '<os-meta>';
+const META_CLOSE = '</os-meta>';
+const HTML_OPEN = '<os-html>';
+const HTML_CLOSE = '</os-html>';
+
+// Models sometimes wrap the whole response in a Markdown code fence. Only a
+// fence at its very start or end is removed; fences in between, e.g. in a
+// code sample on the screen, are content.
+const LEADING_FENCE_PATTERN = /^\s*```[a-zA-Z]*[ \t]*\n?/;
+const TRAILING_FENCE_PATTERN = /\n?[ \t]*```\s*$/;
+// A chunk may end part-way through a fence, so hold trailing backticks back.
+const PARTIAL_FENCE_PATTERN = /\s*`{1,3}[a-zA-Z]*\s*$/;
+
+export type EnvelopeEvent =
+  | {type: 'html'; html: string}
+  | {type: 'meta'; meta: ScreenMeta};
+
+export interface EnvelopeParser {
+  /** Feeds the next streamed text chunk and returns any events it completes. */
+  push(text: string): EnvelopeEvent[];
+  /** Flushes buffered text once the stream has ended. */
+  finish(): EnvelopeEvent[];
+}
+
+export const createEmptyScreenMeta = (): ScreenMeta => ({
+  suggestedActions: [],
+  warnings: [],
+});
+
+/** Length of the longest suffix of `text` that is a prefix of `tag`. */
+function partialTagLength(text: string, tag: string): number {
+  for (let len = Math.min(tag.length - 1, text.length); len > 0; len--) {
+    if (tag.startsWith(text.slice(-len))) return len;
+  }
+  return 0;
+}
+
+function normalizeSuggestedActions(value: unknown): SuggestedAction[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((action): SuggestedAction[] => {
+    if (typeof action === 'string') return [{id: action, label: action}];
+    if (action && typeof action.id === 'string') {
+      return [
+        {
+          id: action.id,
+          label: typeof action.label === 'string' ? action.label : action.id,
+          value: typeof action.value === 'string' ? action.value : undefined,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+export function createEnvelopeParser(): EnvelopeParser {
+  type Mode = 'preamble' | 'meta' | 'html' | 'bare' | 'between';
+  let mode: Mode = 'preamble';
+  let buffer = '';
+  let metaText = '';
+  let strippedFence = false;
+  const meta = createEmptyScreenMeta();
+  const snapshot = (): ScreenMeta => ({
+    ...meta,
+    suggestedActions: [...meta.suggestedActions],
+    warnings: [...meta.warnings],
+  });
+
+  const stripFence = (text: string, pattern: RegExp) => {
+    const stripped = text.replace(pattern, '');
+    if (stripped !== text) strippedFence = true;
+    return stripped;
+  };
+
+  const parseMeta = (): EnvelopeEvent => {
+    const json = metaText
+      .replace(LEADING_FENCE_PATTERN, '')
+      .replace(TRAILING_FENCE_PATTERN, '')
+      .trim();
+    try {
+      const parsed = JSON.parse(json || '{}');
+      if (typeof parsed.title === 'string') meta.title = parsed.title;
+      if (parsed.state !== undefined) meta.state = parsed.state;
+      meta.suggestedActions = normalizeSuggestedActions(
+        parsed.suggestedActions,
+      );
+      if (Array.isArray(parsed.warnings)) {
+        meta.warnings.push(
+          ...parsed.warnings.filter((w: unknown) => typeof w === 'string'),
+        );
+      }
+    } catch (e) {
+      meta.warnings.push(
+        'The screen metadata was not valid JSON and was ignored.',
+      );
+    }
+    return {type: 'meta', meta: snapshot()};
+  };
+
+  const step = (final: boolean): EnvelopeEvent[] => {
+    const events: EnvelopeEvent[] = [];
+    while (buffer.length > 0) {
+      if (mode === 'preamble' || mode === 'between') {
+        const metaAt = buffer.indexOf(META_OPEN);
+        const htmlAt = buffer.indexOf(HTML_OPEN);
+        const nextAt = [metaAt, htmlAt]
+          .filter((i) => i >= 0)
+          .sort((a, b) => a - b)[0];
+        if (nextAt !== undefined) {
+          const opensMeta = nextAt === metaAt;
+          const tag = opensMeta ? META_OPEN : HTML_OPEN;
+          buffer = buffer.slice(nextAt + tag.length);
+          mode = opensMeta ? 'meta' : 'html';
+          continue;
+        }
+        const stripped = buffer.replace(LEADING_FENCE_PATTERN, '').trimStart();
+        const mayBeTag =
+          stripped.startsWith('<os-') || '<os-'.startsWith(stripped);
+        const isBareHtml = stripped.startsWith('<') && !mayBeTag;
+        if (isBareHtml || (final && mode === 'preamble' && stripped)) {
+          // The model answered with HTML outside of the envelope.
+          meta.warnings.push(
+            'The response was not wrapped in a screen envelope.',
+          );
+          buffer = stripFence(buffer, LEADING_FENCE_PATTERN);
+          mode = 'bare';
+          continue;
+        }
+        if (final) buffer = '';
+        break;
+      }
+
+      if (mode === 'meta') {
+        const closeAt = buffer.indexOf(META_CLOSE);
+        if (closeAt >= 0) {
+          metaText += buffer.slice(0, closeAt);
+          buffer = buffer.slice(closeAt + META_CLOSE.length);
+          events.push(parseMeta());
+          metaText = '';
+          mode = 'between';
+          continue;
+        }
+        const keep = final ? 0 : partialTagLength(buffer, META_CLOSE);
+        metaText += buffer.slice(0, buffer.length - keep);
+        buffer = buffer.slice(buffer.length - keep);
+        if (final && metaText) events.push(parseMeta());
+        break;
+      }
+
+      // 'html' and 'bare' modes emit everything they can as it arrives.
+      const closeAt = mode === 'html' ? buffer.indexOf(HTML_CLOSE) : -1;
+      if (closeAt >= 0) {
+        const html = buffer.slice(0, closeAt);
+        if (html) events.push({type: 'html', html});
+        buffer = buffer.slice(closeAt + HTML_CLOSE.length);
+        mode = 'between';
+        continue;
+      }
+      // Until the stream ends, trailing backticks may be its closing fence.
+      let keep = 0;
+      if (!final) {
+        keep = Math.max(
+          mode === 'html' ? partialTagLength(buffer, HTML_CLOSE) : 0,
+          buffer.match(PARTIAL_FENCE_PATTERN)?.[0].length ?? 0,
+        );
+      }
+      const html = final
+        ? stripFence(buffer, TRAILING_FENCE_PATTERN)
+        : buffer.slice(0, buffer.length - keep);
+      if (html) events.push({type: 'html', html});
+      buffer = buffer.slice(buffer.length - keep);
+      break;
+    }
+    return events;
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      return step(false);
+    },
+    finish() {
+      const events = step(true);
+      if (strippedFence) {
+        meta.warnings.push(
+          'Stray markdown code fences were removed from the response.',
+        );
+      }
+      if (meta.warnings.length > 0 || events.some((e) => e.type === 'meta')) {
+        events.push({type: 'meta', meta: snapshot()});
+      }
+      return events;
+    },
+  };
+}
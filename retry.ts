@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+export interface RetryOptions {
+  /** Total attempts, including the first one. 1 disables retrying. */
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+}
+
+/** HTTP statuses worth retrying: rate limiting and temporary server trouble. */
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_MESSAGE_PATTERN =
+  /failed to fetch|network|timeout|unavailable|resource_exhausted|overloaded/i;
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** Whether a failed model call is likely to succeed if simply tried again. */
+export function isTransientError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  const status = (error as {status?: unknown})?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUSES.has(status);
+  return TRANSIENT_MESSAGE_PATTERN.test(describeError(error));
+}
+
+/** Extracts a human-readable message from whatever was thrown. */
+export function describeError(error: unknown): string {
+  // Check if error is an instance of Error and has a message property
+  if (error instanceof Error && typeof error.message === 'string') {
+    return error.message;
+  }
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'message' in error &&
+    typeof (error as any).message === 'string'
+  ) {
+    // Handle cases where error might be an object with a message property (like the API error object)
+    return (error as any).message;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  return 'Unknown error';
+}
+
+/** Exponential backoff delay before the given (1-based) retry attempt. */
+export function getBackoffDelay(retry: number, options: RetryOptions): number {
+  const delay = options.initialDelayMs * options.backoffFactor ** (retry - 1);
+  return Math.min(delay, options.maxDelayMs);
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+/** Throws an AbortError if the signal has been aborted. */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Aborted', 'AbortError');
+  }
+}
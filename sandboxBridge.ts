@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {
+  CapturedScreen,
+  FieldState,
+  LiveScreenState,
+  ScrollState,
+  captureDomState,
+} from './domState';
+import {OS_SCRIPT_API_VERSION, OS_SCRIPT_METHODS} from './osScriptApi';
+import {sandboxRuntime} from './sandboxRuntime';
+import {OS_SHORTCUTS} from './shortcuts';
+import {InteractionFile} from './types';
+
+// Generated screens run in a sandboxed iframe with an opaque origin, so their
+// scripts cannot reach the OS's DOM, storage or API key. The frame talks to
+// the OS only through postMessage: it reports interactions (with the live
+// screen state and any picked files), declared menus, `window.os` calls from
+// the screen's scripts and the input events the OS itself needs; the OS sends
+// it HTML to render, menu selections and call results. Everything the frame sends is untrusted
+// and validated here before use.
+
+/** An interaction as reported by the frame; the OS adds the app context. */
+export interface SandboxInteraction {
+  id: string;
+  type: string;
+  value?: string;
+  elementType: string;
+  elementText: string;
+  files?: InteractionFile[];
+}
+
+export interface SandboxMenu {
+  label: string;
+  items: {label: string; disabled: boolean}[];
+}
+
+/** Messages from the frame to the OS. */
+export type SandboxMessage =
+  | {type: 'ready'}
+  | {type: 'interaction'; interaction: SandboxInteraction; screen: CapturedScreen}
+  | {type: 'menus'; menus: SandboxMenu[]}
+  /** An OS shortcut pressed while the frame had focus. */
+  | {type: 'shortcut'; code: string; shiftKey: boolean}
+  /** Pointer input the window needs: focusing, and mouse back/forward. */
+  | {type: 'pointer'; event: 'pointerdown' | 'mouseup'; button: number}
+  /** A `window.os` call; answered with an 'os_result' of the same callId. */
+  | {type: 'os_call'; callId: number; method: string; args: unknown[]};
+
+/** Messages from the OS to the frame. */
+export type HostMessage =
+  | {type: 'render'; html: string; isComplete: boolean}
+  | {type: 'select_menu_item'; menu: number; item: number}
+  /** `error` is set if the call failed. */
+  | {type: 'os_result'; callId: number; value?: unknown; error?: string};
+
+/** Passed to the runtime inside the frame. */
+export interface SandboxConfig {
+  parentOrigin: string;
+  shortcuts: {code: string; shift: boolean}[];
+  apiVersion: number;
+  apiMethods: string[];
+  /** Which picked files the frame reads and attaches to interactions. */
+  files: {maxCount: number; maxSize: number; imageTypes: string[]};
+}
+
+// Popups escape the sandbox so grounding source links open as normal pages.
+export const SANDBOX_PERMISSIONS =
+  'allow-scripts allow-popups allow-popups-to-escape-sandbox';
+
+const TAILWIND_BROWSER_URL = 'https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4';
+
+// Only inline code and the one Tailwind script may run, and images, media
+// and fonts must be data: or blob: URLs, so a screen cannot fetch from or
+// load resources off other hosts. It can still send data out by navigating
+// the frame or opening a popup, so screens are never given secrets such as
+// the API key.
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  `script-src 'unsafe-inline' ${TAILWIND_BROWSER_URL}`,
+  "style-src 'unsafe-inline'",
+  'img-src data: blob:',
+  'media-src data: blob:',
+  'font-src data:',
+  "base-uri 'none'",
+  "form-action 'none'",
+].join('; ');
+
+const MAX_ID_LENGTH = 200;
+const MAX_TEXT_LENGTH = 200;
+const MAX_VALUE_LENGTH = 100_000;
+const MAX_SCREEN_HTML_LENGTH = 2_000_000;
+const MAX_FIELDS = 500;
+const MAX_MENUS = 6;
+const MAX_MENU_ITEMS = 20;
+const MAX_CALL_ARGS = 4;
+// Text files are sent as text/plain; images keep their type if the model
+// accepts it.
+const TEXT_FILE_TYPE = 'text/plain';
+const IMAGE_FILE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+];
+const MAX_INTERACTION_FILES = 4;
+const MAX_FILE_SIZE = 2_000_000;
+const MAX_FILE_DATA_LENGTH = Math.ceil(MAX_FILE_SIZE / 3) * 4;
+const FIELD_KINDS: FieldState['kind'][] = [
+  'text',
+  'checkbox',
+  'radio',
+  'select',
+  'contenteditable',
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || check(value);
+
+function isFieldState(value: unknown): value is FieldState {
+  return (
+    isObject(value) &&
+    isString(value.selector, MAX_TEXT_LENGTH) &&
+    FIELD_KINDS.includes(value.kind) &&
+    isOptional(value.value, (v) => isString(v, MAX_VALUE_LENGTH)) &&
+    isOptional(value.checked, (v) => typeof v === 'boolean') &&
+    isOptional(
+      value.selected,
+      (v) =>
+        Array.isArray(v) && v.every((option) => isString(option, MAX_TEXT_LENGTH)),
+    )
+  );
+}
+
+function isScrollState(value: unknown): value is ScrollState {
+  return (
+    isObject(value) &&
+    isString(value.selector, MAX_TEXT_LENGTH) &&
+    Number.isFinite(value.top) &&
+    Number.isFinite(value.fraction)
+  );
+}
+
+function isLiveScreenState(value: unknown): value is LiveScreenState {
+  return (
+    isObject(value) &&
+    Array.isArray(value.fields) &&
+    value.fields.length <= MAX_FIELDS &&
+    value.fields.every(isFieldState) &&
+    Array.isArray(value.scroll) &&
+    value.scroll.length <= MAX_FIELDS &&
+    value.scroll.every(isScrollState)
+  );
+}
+
+function isInteractionFile(value: unknown): value is InteractionFile {
+  return (
+    isObject(value) &&
+    isString(value.name, MAX_TEXT_LENGTH) &&
+    (value.mimeType === TEXT_FILE_TYPE ||
+      IMAGE_FILE_TYPES.includes(value.mimeType)) &&
+    Number.isSafeInteger(value.size) &&
+    value.size >= 0 &&
+    value.size <= MAX_FILE_SIZE &&
+    isString(value.data, MAX_FILE_DATA_LENGTH)
+  );
+}
+
+function isSandboxInteraction(value: unknown): value is SandboxInteraction {
+  return (
+    isObject(value) &&
+    isString(value.id, MAX_ID_LENGTH) &&
+    value.id.length > 0 &&
+    isString(value.type, MAX_ID_LENGTH) &&
+    isOptional(value.value, (v) => isString(v, MAX_VALUE_LENGTH)) &&
+    isString(value.elementType, MAX_ID_LENGTH) &&
+    isString(value.elementText, MAX_TEXT_LENGTH) &&
+    isOptional(
+      value.files,
+      (v) =>
+        Array.isArray(v) &&
+        v.length <= MAX_INTERACTION_FILES &&
+        v.every(isInteractionFile),
+    )
+  );
+}
+
+function isSandboxMenu(value: unknown): value is SandboxMenu {
+  return (
+    isObject(value) &&
+    isString(value.label, MAX_TEXT_LENGTH) &&
+    Array.isArray(value.items) &&
+    value.items.length <= MAX_MENU_ITEMS &&
+    value.items.every(
+      (item: unknown) =>
+        isObject(item) &&
+        isString(item.label, MAX_TEXT_LENGTH) &&
+        typeof item.disabled === 'boolean',
+    )
+  );
+}
+
+/** The message if `data` is a well-formed message from a frame, else null. */
+export function parseSandboxMessage(data: unknown): SandboxMessage | null {
+  if (!isObject(data)) return null;
+  switch (data.type) {
+    case 'ready':
+      return {type: 'ready'};
+    case 'interaction':
+      return isSandboxInteraction(data.interaction) &&
+        isObject(data.screen) &&
+        isString(data.screen.html, MAX_SCREEN_HTML_LENGTH) &&
+        isLiveScreenState(data.screen.state)
+        ? {
+            type: 'interaction',
+            interaction: data.interaction,
+            screen: data.screen as CapturedScreen,
+          }
+        : null;
+    case 'menus':
+      return Array.isArray(data.menus) &&
+        data.menus.length <= MAX_MENUS &&
+        data.menus.every(isSandboxMenu)
+        ? {type: 'menus', menus: data.menus}
+        : null;
+    case 'shortcut':
+      return isString(data.code, MAX_ID_LENGTH) &&
+        typeof data.shiftKey === 'boolean'
+        ? {type: 'shortcut', code: data.code, shiftKey: data.shiftKey}
+        : null;
+    case 'pointer':
+      return (data.event === 'pointerdown' || data.event === 'mouseup') &&
+        Number.isInteger(data.button)
+        ? {type: 'pointer', event: data.event, button: data.button}
+        : null;
+    case 'os_call':
+      return Number.isSafeInteger(data.callId) &&
+        (OS_SCRIPT_METHODS as readonly string[]).includes(data.method) &&
+        Array.isArray(data.args) &&
+        data.args.length <= MAX_CALL_ARGS
+        ? {
+            type: 'os_call',
+            callId: data.callId,
+            method: data.method,
+            args: data.args,
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Keeps injected text from closing the <script> or <style> element early.
+const escapeForElement = (text: string) => text.replace(/<\//g, '<\\/');
+
+/**
+ * The document loaded into a screen's frame: the CSP, Tailwind with the
+ * shared `llm-*` and app classes from index.html, and the runtime.
+ */
+export function createSandboxDocument(): string {
+  const sharedStyles =
+    document.querySelector('style[type="text/tailwindcss"]')?.textContent ??
+    '';
+  const config: SandboxConfig = {
+    parentOrigin: window.location.origin,
+    shortcuts: OS_SHORTCUTS.map(({code, shift}) => ({code, shift: !!shift})),
+    apiVersion: OS_SCRIPT_API_VERSION,
+    apiMethods: [...OS_SCRIPT_METHODS],
+    files: {
+      maxCount: MAX_INTERACTION_FILES,
+      maxSize: MAX_FILE_SIZE,
+      imageTypes: IMAGE_FILE_TYPES,
+    },
+  };
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}" />
+    <script src="${TAILWIND_BROWSER_URL}"></script>
+    <style type="text/tailwindcss">${escapeForElement(sharedStyles)}</style>
+    <style>
+      html, body { height: 100%; margin: 0; }
+      #os-content { height: 100%; overflow-y: auto; }
+    </style>
+  </head>
+  <body>
+    <div id="os-content"></div>
+    <script>
+      (${escapeForElement(sandboxRuntime.toString())})(
+        ${escapeForElement(JSON.stringify(config))},
+        ${escapeForElement(captureDomState.toString())},
+      );
+    </script>
+  </body>
+</html>`;
+}
@@ -0,0 +1,548 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {CapturedScreen} from './domState';
+import {HostMessage, SandboxConfig, SandboxMessage} from './sandboxBridge';
+import {InteractionFile} from './types';
+
+/**
+ * The code running inside a generated screen's sandboxed frame. It renders
+ * the HTML the OS sends, runs the screen's scripts once it is complete,
+ * turns clicks on `data-interaction-id` elements into interactions for the
+ * OS, resolving `data-value-from` against this screen's form controls and
+ * reading any files picked in them, and gives the scripts `window.os` (see
+ * osScriptApi.ts).
+ *
+ * The OS injects this function's source text into the frame (see
+ * createSandboxDocument), so it must not refer to anything outside its own
+ * body; `captureScreen` is passed in the same way.
+ */
+export function sandboxRuntime(
+  config: SandboxConfig,
+  captureScreen: (container: HTMLElement) => CapturedScreen,
+) {
+  const MAX_APP_MENUS = 6;
+  const MAX_MENU_ITEMS = 20;
+  const MAX_LABEL_LENGTH = 40;
+  const MAX_ELEMENT_TEXT_LENGTH = 75;
+  const MAX_FILE_NAME_LENGTH = 200;
+  const INPUT_DEBOUNCE_MS = 500;
+  // MouseEvent.button values of the side buttons on five-button mice.
+  const MOUSE_NAVIGATION_BUTTONS = [3, 4];
+
+  const container = document.getElementById('os-content')!;
+  let renderedHtml = '';
+  let executedHtml: string | null = null;
+  let menuElements: HTMLElement[][] = [];
+  let nextCallId = 1;
+  const pendingCalls = new Map<
+    number,
+    {resolve: (value: unknown) => void; reject: (error: Error) => void}
+  >();
+
+  const post = (message: SandboxMessage) =>
+    window.parent.postMessage(message, config.parentOrigin);
+
+  const toLabel = (text: string | null | undefined) =>
+    (text ?? '').trim().replace(/\s+/g, ' ').substring(0, MAX_LABEL_LENGTH);
+
+  // Which events an element reacts to, from `data-interaction-on`, e.g.
+  // "submit|change|keydown:Enter". Forms submit by default, the rest click.
+  const getTriggers = (element: HTMLElement): string[] => {
+    const declared = element.dataset.interactionOn;
+    if (declared) {
+      return declared
+        .split('|')
+        .map((trigger) => trigger.trim())
+        .filter(Boolean);
+    }
+    return [element.tagName === 'FORM' ? 'submit' : 'click'];
+  };
+
+  // The nearest element, from `start` up to the content area, with an
+  // interaction id and a trigger accepted by `accepts`.
+  const findInteractive = (
+    start: EventTarget | null,
+    accepts: (trigger: string) => boolean,
+  ): {element: HTMLElement; trigger: string} | null => {
+    let element = start instanceof Element ? start : null;
+    while (element && element !== container) {
+      if (element instanceof HTMLElement && element.dataset.interactionId) {
+        const trigger = getTriggers(element).find(accepts);
+        if (trigger) return {element, trigger};
+      }
+      element = element.parentElement;
+    }
+    return null;
+  };
+
+  // A combination such as "Enter", "Ctrl+S" or "Shift+Enter"; modifiers
+  // must match exactly.
+  const matchesKeys = (combo: string, event: KeyboardEvent) => {
+    const parts = combo.toLowerCase().split('+');
+    const key = parts.pop();
+    return (
+      (key === 'space' ? ' ' : key) === event.key.toLowerCase() &&
+      parts.includes('ctrl') === event.ctrlKey &&
+      parts.includes('alt') === event.altKey &&
+      parts.includes('shift') === event.shiftKey &&
+      parts.includes('meta') === event.metaKey
+    );
+  };
+
+  // An element by id, or else a radio group by name, within this screen.
+  const findControl = (id: string) =>
+    container.querySelector(`#${CSS.escape(id)}`) ??
+    container.querySelector(`input[type="radio"][name="${CSS.escape(id)}"]`);
+
+  // The checked value of the radio's group, within its form if it has one.
+  const readRadioGroup = (radio: HTMLInputElement) => {
+    if (!radio.name) return radio.checked ? radio.value : null;
+    const checked = (radio.form ?? container).querySelector<HTMLInputElement>(
+      `input[type="radio"][name="${CSS.escape(radio.name)}"]:checked`,
+    );
+    return checked ? checked.value : null;
+  };
+
+  // A form control's typed value: a boolean for a checkbox, a number for a
+  // number or range input, an array for a multi-select, the file names for
+  // a file input (whose files are added to `picked`) and an object of named
+  // fields for a whole form. Undefined for anything that holds no value.
+  const readControlValue = (
+    control: Element | null,
+    picked: File[],
+  ): unknown => {
+    if (control instanceof HTMLInputElement) {
+      switch (control.type) {
+        case 'button':
+        case 'submit':
+        case 'reset':
+        case 'image':
+          return undefined;
+        case 'checkbox':
+          return control.checked;
+        case 'radio':
+          return readRadioGroup(control);
+        case 'number':
+        case 'range':
+          return control.value === '' ? null : control.valueAsNumber;
+        case 'file': {
+          const files = Array.from(control.files ?? []);
+          picked.push(...files);
+          return files.map((file) => file.name);
+        }
+        default:
+          return control.value;
+      }
+    }
+    if (control instanceof HTMLSelectElement && control.multiple) {
+      return Array.from(control.selectedOptions, (option) => option.value);
+    }
+    if (
+      control instanceof HTMLTextAreaElement ||
+      control instanceof HTMLSelectElement
+    ) {
+      return control.value;
+    }
+    if (control instanceof HTMLFormElement) {
+      return readForm(control, picked);
+    }
+    if (control instanceof HTMLElement && control.isContentEditable) {
+      return control.innerText;
+    }
+    return undefined;
+  };
+
+  // Fields are keyed by name, or id. Checkboxes sharing a name give the
+  // list of checked values, like a multi-select.
+  const readForm = (form: HTMLFormElement, picked: File[]) => {
+    const values: Record<string, unknown> = {};
+    for (const field of Array.from(form.elements)) {
+      const name = field.getAttribute('name') || field.id;
+      if (!name) continue;
+      if (
+        field instanceof HTMLInputElement &&
+        field.type === 'checkbox' &&
+        form.elements.namedItem(name) instanceof RadioNodeList
+      ) {
+        const checked = (values[name] ??= []) as string[];
+        if (field.checked) checked.push(field.value);
+        continue;
+      }
+      // A radio group is read once, from its first radio.
+      if (name in values) continue;
+      const value = readControlValue(field, picked);
+      if (value !== undefined) values[name] = value;
+    }
+    return values;
+  };
+
+  const toValueString = (value: unknown): string | undefined =>
+    value === undefined || typeof value === 'string'
+      ? (value as string | undefined)
+      : JSON.stringify(value);
+
+  const readValueFrom = (
+    valueFrom: string,
+    picked: File[],
+  ): string | undefined => {
+    // A JSON object maps value keys to control ids, keeping the values typed.
+    if (valueFrom.trim().startsWith('{')) {
+      try {
+        const idMap = JSON.parse(valueFrom);
+        const values: Record<string, unknown> = {};
+        for (const key in idMap) {
+          const control = findControl(String(idMap[key]));
+          const value = readControlValue(control, picked);
+          if (value !== undefined) values[key] = value;
+        }
+        return JSON.stringify(values);
+      } catch (e) {
+        console.error(
+          'Failed to parse data-value-from JSON. Make sure it is valid JSON.',
+          valueFrom,
+          e,
+        );
+        return undefined;
+      }
+    }
+    return toValueString(readControlValue(findControl(valueFrom), picked));
+  };
+
+  // The value of the element itself, e.g. a whole form, or of the control
+  // inside it that fired the event.
+  const readOwnValue = (
+    element: HTMLElement,
+    source: EventTarget | null,
+    picked: File[],
+  ) =>
+    toValueString(
+      readControlValue(element, picked) ??
+        readControlValue(source instanceof Element ? source : null, picked),
+    );
+
+  const isTextFile = (file: File) =>
+    file.type.startsWith('text/') ||
+    file.type === 'application/json' ||
+    file.type === 'application/xml';
+
+  const toBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // In chunks, to stay under the engine's argument count limit.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  };
+
+  // Reads the picked files the model can take, within the OS's limits. The
+  // rest are still named in the interaction's value.
+  const readFiles = async (picked: File[]) => {
+    const files: InteractionFile[] = [];
+    for (const file of picked) {
+      if (files.length >= config.files.maxCount) break;
+      const mimeType = isTextFile(file)
+        ? 'text/plain'
+        : config.files.imageTypes.includes(file.type)
+          ? file.type
+          : null;
+      if (!mimeType || file.size > config.files.maxSize) {
+        console.warn(
+          `Not attaching "${file.name}": only text and image files up to ${config.files.maxSize} bytes are sent to the model.`,
+        );
+        continue;
+      }
+      try {
+        files.push({
+          name: file.name.substring(0, MAX_FILE_NAME_LENGTH),
+          mimeType,
+          size: file.size,
+          data: toBase64(await file.arrayBuffer()),
+        });
+      } catch (e) {
+        console.error(`Failed to read "${file.name}".`, e);
+      }
+    }
+    return files;
+  };
+
+  const sendInteraction = async (
+    element: HTMLElement,
+    trigger: string,
+    source: EventTarget | null,
+  ) => {
+    const {interactionId, interactionType, interactionValue, valueFrom} =
+      element.dataset;
+    const picked: File[] = [];
+    let value = interactionValue;
+    if (valueFrom) {
+      value = readValueFrom(valueFrom, picked);
+    } else if (
+      value === undefined &&
+      trigger !== 'click' &&
+      !trigger.startsWith('shortcut:')
+    ) {
+      value = readOwnValue(element, source, picked);
+    }
+    // Captured before reading files, as the user left the screen.
+    const screen = captureScreen(container);
+    const files = picked.length > 0 ? await readFiles(picked) : undefined;
+    const defaultType =
+      trigger !== 'click'
+        ? trigger
+        : element.closest('[data-app-menu]')
+          ? 'menu_select'
+          : 'generic_click';
+    post({
+      type: 'interaction',
+      interaction: {
+        id: interactionId!,
+        type: interactionType || defaultType,
+        value,
+        elementType: element.tagName.toLowerCase(),
+        elementText: (
+          element.innerText ||
+          (element as HTMLInputElement).value ||
+          ''
+        )
+          .trim()
+          .substring(0, MAX_ELEMENT_TEXT_LENGTH),
+        files,
+      },
+      screen,
+    });
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    const target = event.target as HTMLElement | null;
+
+    // Clicking into an input or textarea to type is not an interaction,
+    // unless the element itself reacts to clicks.
+    if (
+      target &&
+      (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') &&
+      !(target.dataset.interactionId && getTriggers(target).includes('click'))
+    ) {
+      return;
+    }
+
+    const found = findInteractive(target, (trigger) => trigger === 'click');
+    if (!found) return;
+    event.preventDefault();
+    sendInteraction(found.element, 'click', target);
+  };
+
+  // Forms never submit natively; the frame has nowhere to submit them to.
+  const handleSubmit = (event: SubmitEvent) => {
+    event.preventDefault();
+    const found = findInteractive(event.target, (t) => t === 'submit');
+    if (found) sendInteraction(found.element, 'submit', event.target);
+  };
+
+  const handleChange = (event: Event) => {
+    const found = findInteractive(event.target, (t) => t === 'change');
+    if (found) sendInteraction(found.element, 'change', event.target);
+  };
+
+  // Typing sends one interaction once the user pauses.
+  const inputTimers = new Map<HTMLElement, number>();
+  const handleInput = (event: Event) => {
+    const found = findInteractive(event.target, (t) => t === 'input');
+    if (!found) return;
+    const {element} = found;
+    const delay =
+      Number(element.dataset.interactionDebounce) || INPUT_DEBOUNCE_MS;
+    clearTimeout(inputTimers.get(element));
+    inputTimers.set(
+      element,
+      window.setTimeout(() => {
+        inputTimers.delete(element);
+        if (element.isConnected) {
+          sendInteraction(element, 'input', event.target);
+        }
+      }, delay),
+    );
+  };
+
+  const findShortcut = (event: KeyboardEvent) => {
+    const elements = container.querySelectorAll<HTMLElement>(
+      '[data-interaction-id][data-interaction-on]',
+    );
+    for (const element of Array.from(elements)) {
+      const trigger = getTriggers(element).find(
+        (t) => t.startsWith('shortcut:') && matchesKeys(t.substring(9), event),
+      );
+      if (trigger) return {element, trigger};
+    }
+    return null;
+  };
+
+  // "keydown:<keys>" fires while focus is inside the element;
+  // "shortcut:<keys>" fires wherever the focus is on the screen.
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || event.repeat) return;
+    const found =
+      findInteractive(
+        event.target,
+        (t) => t.startsWith('keydown:') && matchesKeys(t.substring(8), event),
+      ) ?? findShortcut(event);
+    if (!found) return;
+    event.preventDefault();
+    sendInteraction(found.element, found.trigger, event.target);
+  };
+
+  const reportMenus = () => {
+    const menus: {label: string; items: {label: string; disabled: boolean}[]}[] =
+      [];
+    menuElements = [];
+    const declarations =
+      container.querySelectorAll<HTMLElement>('[data-app-menu]');
+    for (const declaration of Array.from(declarations)) {
+      const label = toLabel(declaration.dataset.appMenu);
+      if (!label || menus.length >= MAX_APP_MENUS) continue;
+      const items = Array.from(
+        declaration.querySelectorAll<HTMLElement>('[data-interaction-id]'),
+      ).slice(0, MAX_MENU_ITEMS);
+      if (items.length === 0) continue;
+      menus.push({
+        label,
+        items: items.map((item) => ({
+          label: toLabel(item.textContent) || item.dataset.interactionId!,
+          disabled: item.hasAttribute('data-disabled'),
+        })),
+      });
+      menuElements.push(items);
+    }
+    post({type: 'menus', menus});
+  };
+
+  // Every method returns a promise settled by the OS's 'os_result' reply.
+  const createOsApi = () => {
+    const api: Record<string, any> = {version: config.apiVersion};
+    for (const method of config.apiMethods) {
+      const call = (...args: unknown[]) =>
+        new Promise((resolve, reject) => {
+          const callId = nextCallId++;
+          pendingCalls.set(callId, {resolve, reject});
+          post({type: 'os_call', callId, method, args});
+        });
+      const [namespace, name] = method.split('.');
+      if (name) {
+        api[namespace] ??= {};
+        api[namespace][name] = call;
+      } else {
+        api[namespace] = call;
+      }
+    }
+    Object.values(api).forEach((value) => Object.freeze(value));
+    return Object.freeze(api);
+  };
+
+  const settleCall = (message: Extract<HostMessage, {type: 'os_result'}>) => {
+    const pending = pendingCalls.get(message.callId);
+    if (!pending) return;
+    pendingCalls.delete(message.callId);
+    if (message.error === undefined) {
+      pending.resolve(message.value);
+    } else {
+      pending.reject(new Error(message.error));
+    }
+  };
+
+  // Scripts inserted through innerHTML do not run; replace each with a copy.
+  const runScripts = () => {
+    for (const oldScript of Array.from(container.querySelectorAll('script'))) {
+      try {
+        const newScript = document.createElement('script');
+        Array.from(oldScript.attributes).forEach((attr) =>
+          newScript.setAttribute(attr.name, attr.value),
+        );
+        newScript.text = oldScript.innerHTML;
+        oldScript.replaceWith(newScript);
+      } catch (e) {
+        console.error(
+          'Error processing/executing script tag. This usually indicates a syntax error in the LLM-generated script.',
+          {scriptContent: oldScript.innerHTML.substring(0, 500), error: e},
+        );
+      }
+    }
+  };
+
+  const render = (html: string, isComplete: boolean) => {
+    if (html !== renderedHtml) {
+      container.innerHTML = html;
+      renderedHtml = html;
+      executedHtml = null;
+    }
+    if (!isComplete) {
+      // Menus are only offered once the screen has finished streaming.
+      if (menuElements.length > 0) {
+        menuElements = [];
+        post({type: 'menus', menus: []});
+      }
+      return;
+    }
+    if (executedHtml !== html) {
+      runScripts();
+      executedHtml = html;
+      reportMenus();
+    }
+  };
+
+  window.addEventListener('message', (event: MessageEvent<HostMessage>) => {
+    if (event.source !== window.parent) return;
+    const message = event.data;
+    if (message?.type === 'render' && typeof message.html === 'string') {
+      render(message.html, !!message.isComplete);
+    } else if (message?.type === 'select_menu_item') {
+      menuElements[message.menu]?.[message.item]?.click();
+    } else if (message?.type === 'os_result') {
+      settleCall(message);
+    }
+  });
+
+  Object.defineProperty(window, 'os', {value: createOsApi()});
+  container.addEventListener('click', handleClick);
+  container.addEventListener('submit', handleSubmit);
+  container.addEventListener('change', handleChange);
+  container.addEventListener('input', handleInput);
+  window.addEventListener('keydown', handleKeyDown);
+
+  // The OS handles its shortcuts and window focus outside this frame, so
+  // relay the input it needs.
+  window.addEventListener(
+    'keydown',
+    (event) => {
+      if (!event.isTrusted || !event.altKey || event.ctrlKey || event.metaKey) {
+        return;
+      }
+      const isShortcut = config.shortcuts.some(
+        ({code, shift}) => code === event.code && shift === event.shiftKey,
+      );
+      if (!isShortcut) return;
+      event.preventDefault();
+      post({type: 'shortcut', code: event.code, shiftKey: event.shiftKey});
+    },
+    true,
+  );
+  window.addEventListener(
+    'pointerdown',
+    (event) =>
+      post({type: 'pointer', event: 'pointerdown', button: event.button}),
+    true,
+  );
+  window.addEventListener(
+    'mouseup',
+    (event) => {
+      if (!MOUSE_NAVIGATION_BUTTONS.includes(event.button)) return;
+      event.preventDefault();
+      post({type: 'pointer', event: 'mouseup', button: event.button});
+    },
+    true,
+  );
+
+  post({type: 'ready'});
+}
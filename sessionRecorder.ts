@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {
+  ContentChunk,
+  ContentRequest,
+  ContentResult,
+  ModelProvider,
+  getModelProvider,
+  setModelProvider,
+} from './modelProvider';
+import {describeError} from './retry';
+import {InteractionData} from './types';
+
+export const SESSION_RECORDING_VERSION = 2;
+
+export interface RecordedChunk extends ContentChunk {
+  /** Milliseconds between this chunk and the previous one (or the request). */
+  delayMs: number;
+}
+
+/** A model call that failed; replays raise it again at the same point. */
+export interface RecordedError {
+  message: string;
+  /** The HTTP status, if any, so retries are classified as they were. */
+  status?: number;
+  name?: string;
+}
+
+export type SessionEvent =
+  | {type: 'interaction'; at: number; interaction: InteractionData}
+  | {
+      type: 'stream';
+      at: number;
+      request: ContentRequest;
+      chunks: RecordedChunk[];
+      /** Set if the stream failed after `chunks`. */
+      error?: RecordedError;
+    }
+  | {
+      type: 'generate';
+      at: number;
+      request: ContentRequest;
+      result?: ContentResult;
+      /** Set instead of `result` if the call failed. */
+      error?: RecordedError;
+    };
+
+/**
+ * A recorded OS session: every interaction plus the exact prompt and response
+ * of every model call it caused. Media generation and live audio are not
+ * recorded; replays serve those from the mock provider.
+ */
+export interface SessionRecording {
+  version: number;
+  recordedAt: string;
+  providerId: string;
+  events: SessionEvent[];
+}
+
+interface ActiveRecording {
+  recording: SessionRecording;
+  startedAt: number;
+  innerProvider: ModelProvider;
+}
+
+let active: ActiveRecording | null = null;
+
+const elapsed = () => (active ? Date.now() - active.startedAt : 0);
+
+function pushEvent(event: SessionEvent) {
+  active?.recording.events.push(event);
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  const {name, status} = (error ?? {}) as {name?: unknown; status?: unknown};
+  return {
+    message: describeError(error),
+    status: typeof status === 'number' ? status : undefined,
+    name: typeof name === 'string' ? name : undefined,
+  };
+}
+
+/**
+ * The interaction with its attached files reduced to their name, type and
+ * size. File contents are sent to the model once and never kept.
+ */
+export function withoutFileData(interaction: InteractionData): InteractionData {
+  if (!interaction.files) return interaction;
+  return {
+    ...interaction,
+    files: interaction.files.map((file) => ({...file, data: ''})),
+  };
+}
+
+/** Recreates a recorded failure as a thrown value. */
+export function toReplayedError({message, status, name}: RecordedError): Error {
+  if (name === 'AbortError') return new DOMException(message, 'AbortError');
+  return Object.assign(new Error(message), status === undefined ? {} : {status});
+}
+
+/**
+ * Wraps a provider so that every content request made through it is appended
+ * to the active recording, chunk by chunk, with its original timing.
+ */
+function createRecordingProvider(inner: ModelProvider): ModelProvider {
+  return {
+    ...inner,
+    async *streamContent(request: ContentRequest) {
+      // Pushed up front so concurrent calls keep the order they were made in.
+      // Attachments hold the user's file contents; the prompt still names them.
+      const {signal, attachments, ...recordedRequest} = request;
+      const event: Extract<SessionEvent, {type: 'stream'}> = {
+        type: 'stream',
+        at: elapsed(),
+        request: recordedRequest,
+        chunks: [],
+      };
+      pushEvent(event);
+      let last = Date.now();
+      try {
+        for await (const chunk of inner.streamContent(request)) {
+          const now = Date.now();
+          event.chunks.push({...chunk, delayMs: now - last});
+          last = now;
+          yield chunk;
+        }
+      } catch (e) {
+        event.error = toRecordedError(e);
+        throw e;
+      }
+    },
+    async generateContent(request: ContentRequest) {
+      const {signal, attachments, ...recordedRequest} = request;
+      const event: Extract<SessionEvent, {type: 'generate'}> = {
+        type: 'generate',
+        at: elapsed(),
+        request: recordedRequest,
+      };
+      pushEvent(event);
+      try {
+        event.result = await inner.generateContent(request);
+        return event.result;
+      } catch (e) {
+        event.error = toRecordedError(e);
+        throw e;
+      }
+    },
+  };
+}
+
+export function isRecording(): boolean {
+  return active !== null;
+}
+
+/** Starts a new recording, routing all model calls through the recorder. */
+export function startRecording(): void {
+  if (active) return;
+  const innerProvider = getModelProvider();
+  active = {
+    recording: {
+      version: SESSION_RECORDING_VERSION,
+      recordedAt: new Date().toISOString(),
+      providerId: innerProvider.id,
+      events: [],
+    },
+    startedAt: Date.now(),
+    innerProvider,
+  };
+  setModelProvider(createRecordingProvider(innerProvider));
+}
+
+/** Stops recording, restores the original provider and returns the session. */
+export function stopRecording(): SessionRecording | null {
+  if (!active) return null;
+  const {recording, innerProvider} = active;
+  active = null;
+  setModelProvider(innerProvider);
+  return recording;
+}
+
+export function recordInteraction(interaction: InteractionData): void {
+  if (!active) return;
+  pushEvent({
+    type: 'interaction',
+    at: elapsed(),
+    interaction: withoutFileData(interaction),
+  });
+}
+
+/** Validates a parsed session file and returns it typed, or throws. */
+export function parseSessionRecording(data: unknown): SessionRecording {
+  const recording = data as SessionRecording;
+  if (
+    !recording ||
+    typeof recording !== 'object' ||
+    !Array.isArray(recording.events)
+  ) {
+    throw new Error('Not a session recording: missing "events".');
+  }
+  if (recording.version !== SESSION_RECORDING_VERSION) {
+    throw new Error(
+      `Unsupported session recording version ${recording.version} (expected ${SESSION_RECORDING_VERSION}).`,
+    );
+  }
+  for (const event of recording.events) {
+    if (!['interaction', 'stream', 'generate'].includes(event?.type)) {
+      throw new Error(`Unknown session event type "${event?.type}".`);
+    }
+  }
+  return recording;
+}
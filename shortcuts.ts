@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// Keyboard shortcuts handled by the OS itself. App listens for them in the
+// capture phase, before generated content or the Terminal see the key.
+// Matching uses `code` so Alt combinations work on layouts where Alt changes
+// the typed character (e.g. Option+S on a Mac).
+
+export type ShortcutAction =
+  | 'next_window'
+  | 'previous_window'
+  | 'close_window'
+  | 'navigate_back'
+  | 'navigate_forward'
+  | 'toggle_start_menu';
+
+interface Shortcut {
+  action: ShortcutAction;
+  code: string;
+  shift?: boolean;
+  /** How the shortcut is shown to the user. */
+  label: string;
+  description: string;
+}
+
+export const OS_SHORTCUTS: Shortcut[] = [
+  {
+    action: 'toggle_start_menu',
+    code: 'KeyS',
+    label: 'Alt+S',
+    description: 'Open or close the start menu',
+  },
+  {
+    action: 'next_window',
+    code: 'Backquote',
+    label: 'Alt+`',
+    description: 'Switch to the next window',
+  },
+  {
+    action: 'previous_window',
+    code: 'Backquote',
+    shift: true,
+    label: 'Alt+Shift+`',
+    description: 'Switch to the previous window',
+  },
+  {
+    action: 'close_window',
+    code: 'KeyW',
+    label: 'Alt+W',
+    description: 'Close the focused window',
+  },
+  {
+    action: 'navigate_back',
+    code: 'ArrowLeft',
+    label: 'Alt+←',
+    description: 'Go back in the focused window',
+  },
+  {
+    action: 'navigate_forward',
+    code: 'ArrowRight',
+    label: 'Alt+→',
+    description: 'Go forward in the focused window',
+  },
+];
+
+/** The OS shortcut a key press triggers, if any. */
+export function matchShortcut(event: KeyboardEvent): ShortcutAction | null {
+  if (!event.altKey || event.ctrlKey || event.metaKey) return null;
+  const shortcut = OS_SHORTCUTS.find(
+    ({code, shift = false}) =>
+      code === event.code && shift === event.shiftKey,
+  );
+  return shortcut?.action ?? null;
+}
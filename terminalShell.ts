@@ -0,0 +1,416 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {describeError} from './retry';
+import {AppDefinition} from './types';
+import {
+  DOCUMENTS_PATH,
+  FsNode,
+  baseName,
+  deletePermanently,
+  getNode,
+  isInTrash,
+  listDirectory,
+  makeDirectory,
+  moveEntry,
+  moveToTrash,
+  normalizePath,
+  readFile,
+  writeFile,
+} from './virtualFs';
+
+// The Terminal's own command interpreter. Core commands run locally against
+// the virtual filesystem and the installed apps, so their output is exact and
+// free; anything else is handed to the model by the caller.
+
+export const HOME_PATH = DOCUMENTS_PATH;
+
+const HISTORY_STORAGE_KEY = 'os.terminal-history.v1';
+const MAX_HISTORY_LENGTH = 200;
+
+export interface ShellContext {
+  cwd: string;
+  /** Commands entered so far, oldest first. */
+  history: string[];
+  apps: AppDefinition[];
+  /** Resolves to whether the Terminal may touch files, asking the user the first time. */
+  requestFileAccess: () => Promise<boolean>;
+}
+
+export interface ShellResult {
+  output: string[];
+  /** The working directory after the command, if it changed. */
+  cwd?: string;
+  clear?: boolean;
+  openApp?: AppDefinition;
+  /** True when the command created, moved or deleted files. */
+  changedFiles?: boolean;
+  /** True when the command is not built in and should go to the model. */
+  unknown?: boolean;
+}
+
+interface ShellCommand {
+  usage: string;
+  description: string;
+  usesFiles?: boolean;
+  run: (args: string[], context: ShellContext) => Promise<ShellResult>;
+}
+
+/** Splits a command line into words, honoring single and double quotes. */
+export function tokenize(line: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: string | null = null;
+  for (const char of line) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+  if (quote) throw new Error('unterminated quote');
+  if (inWord) words.push(current);
+  return words;
+}
+
+/** Resolves a path typed in the shell, with "~", "." and "..", against `cwd`. */
+export function resolveShellPath(cwd: string, path: string): string {
+  const absolute = path.startsWith('~')
+    ? HOME_PATH + path.substring(1)
+    : path.startsWith('/')
+      ? path
+      : `${cwd}/${path}`;
+  const segments: string[] = [];
+  for (const segment of absolute.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return normalizePath(`/${segments.join('/')}`);
+}
+
+const splitFlags = (args: string[]) => ({
+  flags: args.filter((arg) => /^-\w+$/.test(arg)).join(''),
+  operands: args.filter((arg) => !/^-\w+$/.test(arg)),
+});
+
+function requireOperands(operands: string[], count: number, usage: string) {
+  if (operands.length < count) throw new Error(`usage: ${usage}`);
+}
+
+function formatEntry(node: FsNode, long: boolean): string {
+  const name = node.type === 'dir' ? `${baseName(node.path)}/` : baseName(node.path);
+  if (!long) return name;
+  const modified = new Date(node.modifiedAt).toISOString().substring(0, 16);
+  return `${node.type === 'dir' ? 'd' : '-'} ${String(node.size).padStart(8)} ${modified.replace('T', ' ')} ${name}`;
+}
+
+function findApp(apps: AppDefinition[], query: string): AppDefinition | undefined {
+  const wanted = query.toLowerCase();
+  return (
+    apps.find((app) => app.id === query) ??
+    apps.find((app) => app.name.toLowerCase() === wanted)
+  );
+}
+
+const COMMANDS: Record<string, ShellCommand> = {
+  help: {
+    usage: 'help',
+    description: 'list the built-in commands',
+    run: async () => ({
+      output: [
+        ...Object.values(COMMANDS).map(
+          ({usage, description}) => `${usage.padEnd(22)} ${description}`,
+        ),
+        'Other commands are answered by the model.',
+      ],
+    }),
+  },
+  ls: {
+    usage: 'ls [-l] [path...]',
+    description: 'list a directory',
+    usesFiles: true,
+    run: async (args, {cwd}) => {
+      const {flags, operands} = splitFlags(args);
+      const long = flags.includes('l');
+      const targets = operands.length > 0 ? operands : ['.'];
+      const output: string[] = [];
+      for (const target of targets) {
+        const path = resolveShellPath(cwd, target);
+        const node = await getNode(path);
+        if (!node) throw new Error(`${target}: no such file or directory`);
+        if (targets.length > 1) output.push(`${target}:`);
+        if (node.type === 'file') {
+          output.push(formatEntry(node, long));
+        } else {
+          const entries = await listDirectory(path);
+          output.push(...entries.map((entry) => formatEntry(entry, long)));
+        }
+      }
+      return {output};
+    },
+  },
+  cd: {
+    usage: 'cd [path]',
+    description: 'change the working directory',
+    usesFiles: true,
+    run: async ([target = '~'], {cwd}) => {
+      const path = resolveShellPath(cwd, target);
+      const node = await getNode(path);
+      if (!node) throw new Error(`${target}: no such file or directory`);
+      if (node.type !== 'dir') throw new Error(`${target}: not a directory`);
+      return {output: [], cwd: path};
+    },
+  },
+  pwd: {
+    usage: 'pwd',
+    description: 'print the working directory',
+    run: async (args, {cwd}) => ({output: [cwd]}),
+  },
+  cat: {
+    usage: 'cat file...',
+    description: 'print the contents of files',
+    usesFiles: true,
+    run: async (args, {cwd}) => {
+      requireOperands(args, 1, COMMANDS.cat.usage);
+      const output: string[] = [];
+      for (const target of args) {
+        const node = await readFile(resolveShellPath(cwd, target));
+        output.push(...(node.content ?? '').replace(/\n$/, '').split('\n'));
+      }
+      return {output};
+    },
+  },
+  echo: {
+    usage: 'echo text [> file]',
+    description: 'print text, or write it to a file with > or >>',
+    run: async (args, context) => {
+      const redirect = args.findIndex((arg) => arg === '>' || arg === '>>');
+      if (redirect === -1) return {output: [args.join(' ')]};
+      const target = args[redirect + 1];
+      if (!target) throw new Error('missing file name after redirection');
+      if (!(await context.requestFileAccess())) {
+        throw new Error('permission denied');
+      }
+      const path = resolveShellPath(context.cwd, target);
+      let content = `${args.slice(0, redirect).join(' ')}\n`;
+      if (args[redirect] === '>>') {
+        const existing = await getNode(path);
+        if (existing?.type === 'file') content = (existing.content ?? '') + content;
+      }
+      await writeFile(path, content);
+      return {output: [], changedFiles: true};
+    },
+  },
+  mkdir: {
+    usage: 'mkdir dir...',
+    description: 'create directories',
+    usesFiles: true,
+    run: async (args, {cwd}) => {
+      requireOperands(args, 1, COMMANDS.mkdir.usage);
+      for (const target of args) {
+        await makeDirectory(resolveShellPath(cwd, target));
+      }
+      return {output: [], changedFiles: true};
+    },
+  },
+  rm: {
+    usage: 'rm [-r] path...',
+    description: 'move to the Trash; delete for good inside the Trash',
+    usesFiles: true,
+    run: async (args, {cwd}) => {
+      const {flags, operands} = splitFlags(args);
+      requireOperands(operands, 1, COMMANDS.rm.usage);
+      const output: string[] = [];
+      for (const target of operands) {
+        const path = resolveShellPath(cwd, target);
+        const node = await getNode(path);
+        if (!node) throw new Error(`${target}: no such file or directory`);
+        if (node.type === 'dir' && !/[rR]/.test(flags)) {
+          throw new Error(`${target}: is a directory (use rm -r)`);
+        }
+        if (isInTrash(path)) {
+          await deletePermanently(path);
+        } else {
+          output.push(`${target} moved to ${await moveToTrash(path)}`);
+        }
+      }
+      return {output, changedFiles: true};
+    },
+  },
+  mv: {
+    usage: 'mv source destination',
+    description: 'move or rename a file or directory',
+    usesFiles: true,
+    run: async (args, {cwd}) => {
+      requireOperands(args, 2, COMMANDS.mv.usage);
+      const source = resolveShellPath(cwd, args[0]);
+      let destination = resolveShellPath(cwd, args[1]);
+      // Moving onto a directory moves into it, as in a real shell.
+      if ((await getNode(destination))?.type === 'dir') {
+        destination = resolveShellPath(destination, baseName(source));
+      }
+      await moveEntry(source, destination);
+      return {output: [], changedFiles: true};
+    },
+  },
+  history: {
+    usage: 'history',
+    description: 'list the commands entered so far',
+    run: async (args, {history}) => ({
+      output: history.map(
+        (command, index) => `${String(index + 1).padStart(4)}  ${command}`,
+      ),
+    }),
+  },
+  clear: {
+    usage: 'clear',
+    description: 'clear the screen',
+    run: async () => ({output: [], clear: true}),
+  },
+  open: {
+    usage: 'open app',
+    description: 'open an installed app by name or id',
+    run: async (args, {apps}) => {
+      requireOperands(args, 1, COMMANDS.open.usage);
+      const query = args.join(' ');
+      const app = findApp(apps, query);
+      if (!app) throw new Error(`${query}: no such app`);
+      return {output: [`Opening ${app.name}…`], openApp: app};
+    },
+  },
+};
+
+export const SHELL_COMMAND_NAMES = Object.keys(COMMANDS);
+
+/** Commands entered in earlier sessions, oldest first. */
+export function loadShellHistory(): string[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]',
+    );
+    return Array.isArray(stored)
+      ? stored.filter((command) => typeof command === 'string')
+      : [];
+  } catch (e) {
+    console.error('Failed to read the terminal history:', e);
+    return [];
+  }
+}
+
+/** Appends a command to the history, skipping repeats, and persists it. */
+export function appendToShellHistory(
+  history: string[],
+  command: string,
+): string[] {
+  if (history[history.length - 1] === command) return history;
+  const next = [...history, command].slice(-MAX_HISTORY_LENGTH);
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error('Failed to save the terminal history:', e);
+  }
+  return next;
+}
+
+/**
+ * Runs one command line. Built-in commands never throw: their errors become
+ * output. Lines whose command is not built in come back as `unknown`.
+ */
+export async function runShellCommand(
+  line: string,
+  context: ShellContext,
+): Promise<ShellResult> {
+  let words: string[];
+  try {
+    words = tokenize(line);
+  } catch (e) {
+    return {output: [`shell: ${describeError(e)}`]};
+  }
+  if (words.length === 0) return {output: []};
+  const [name, ...args] = words;
+  const command = COMMANDS[name];
+  if (!command) return {output: [], unknown: true};
+  try {
+    if (command.usesFiles && !(await context.requestFileAccess())) {
+      throw new Error('permission denied: Terminal may not access files');
+    }
+    return await command.run(args, context);
+  } catch (e) {
+    // Filesystem errors end with a period; shell messages do not.
+    return {output: [`${name}: ${describeError(e).replace(/\.$/, '')}`]};
+  }
+}
+
+export interface Completion {
+  /** The line with the completed word, or unchanged if nothing matched. */
+  line: string;
+  /** Every candidate, when more than one matched. */
+  candidates: string[];
+}
+
+const commonPrefix = (values: string[]) =>
+  values.reduce((prefix, value) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length] === value[length]) length++;
+    return prefix.substring(0, length);
+  });
+
+/** Completes the last word of `line` as a command, app name or path. */
+export async function completeCommandLine(
+  line: string,
+  context: ShellContext,
+): Promise<Completion> {
+  const start = line.search(/\S*$/);
+  const word = line.substring(start);
+  const isFirstWord = line.substring(0, start).trim() === '';
+  let candidates: string[];
+  let suffix = ' ';
+
+  if (isFirstWord) {
+    candidates = SHELL_COMMAND_NAMES.filter((name) => name.startsWith(word));
+  } else if (/^\s*open\s/.test(line)) {
+    candidates = context.apps
+      .map((app) => app.id)
+      .filter((id) => id.startsWith(word));
+  } else {
+    const slash = word.lastIndexOf('/');
+    const dirPart = word.substring(0, slash + 1);
+    const namePart = word.substring(slash + 1);
+    let entries: FsNode[] = [];
+    try {
+      entries = await listDirectory(resolveShellPath(context.cwd, dirPart || '.'));
+    } catch (e) {
+      // Not a directory: nothing to complete.
+    }
+    const matches = entries.filter((entry) =>
+      baseName(entry.path).startsWith(namePart),
+    );
+    candidates = matches.map(
+      (entry) =>
+        `${dirPart}${baseName(entry.path)}${entry.type === 'dir' ? '/' : ''}`,
+    );
+    if (matches.length === 1 && matches[0].type === 'dir') suffix = '';
+  }
+
+  if (candidates.length === 0) return {line, candidates: []};
+  if (candidates.length === 1) {
+    return {line: line.substring(0, start) + candidates[0] + suffix, candidates: []};
+  }
+  return {
+    line: line.substring(0, start) + commonPrefix(candidates),
+    candidates,
+  };
+}
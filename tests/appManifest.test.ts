@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+  assertCanInstall,
+  createAppId,
+  createAppManifest,
+  parseAppManifest,
+} from '../appManifest';
+import {AppDefinition} from '../types';
+
+const recipes: AppDefinition = {
+  id: 'recipe_box',
+  name: 'Recipe Box',
+  icon: '🍲',
+  color: '#fde68a',
+  description: 'Keeps favourite recipes.',
+  prompt: {behavior: '"Recipe Box": Lists recipes and shows each one.'},
+  capabilities: ['persistent_storage'],
+  version: '1.0',
+  cacheable: true,
+};
+
+test('reads back the manifest it exports', () => {
+  const file = JSON.parse(JSON.stringify(createAppManifest(recipes)));
+  assert.deepEqual(parseAppManifest(file), recipes);
+});
+
+test('reads back an app whose id the installer made from a long name', () => {
+  const app = {...recipes, id: createAppId('Weekly Meal Planner '.repeat(10))};
+  const file = JSON.parse(JSON.stringify(createAppManifest(app)));
+  assert.deepEqual(parseAppManifest(file), app);
+});
+
+test('lists every problem in an invalid manifest', () => {
+  const manifest = {
+    ...createAppManifest(recipes),
+    id: 'Recipe Box',
+    color: 'yellow',
+    capabilities: ['camera'],
+  };
+  assert.throws(
+    () => parseAppManifest(manifest),
+    (error: Error) =>
+      error.message.includes('"id" must be') &&
+      error.message.includes('"color" must be') &&
+      error.message.includes('Unknown capability "camera"'),
+  );
+});
+
+test('rejects other manifest versions', () => {
+  assert.throws(
+    () => parseAppManifest({...createAppManifest(recipes), manifestVersion: 2}),
+    /Unsupported app manifest version 2/,
+  );
+});
+
+test('refuses ids of built-in and installed apps', () => {
+  assert.throws(
+    () => assertCanInstall({...recipes, id: 'notepad_app'}, []),
+    /built-in app/,
+  );
+  assert.throws(() => assertCanInstall(recipes, [recipes]), /already installed/);
+  assert.doesNotThrow(() => assertCanInstall(recipes, []));
+});
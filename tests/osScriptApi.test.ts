@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {OsScriptContext, handleOsCall} from '../osScriptApi';
+import {InteractionData} from '../types';
+
+function createContext(emitted: InteractionData[]): OsScriptContext {
+  const app = {id: 'game_app', name: 'Game', icon: '🎮', color: '#ffffff'};
+  return {
+    app,
+    apps: [app],
+    openApp: () => {},
+    notify: () => {},
+    emit: (interaction) => emitted.push(interaction),
+    onFilesChanged: () => {},
+  };
+}
+
+test('limits how often a screen can emit interactions', async () => {
+  const emitted: InteractionData[] = [];
+  const context = createContext(emitted);
+  for (let i = 0; i < 5; i++) {
+    await handleOsCall('emit', [{id: 'game-over'}], context);
+  }
+  await assert.rejects(
+    handleOsCall('emit', [{id: 'game-over'}], context),
+    /os\.emit was called too often/,
+  );
+  assert.equal(emitted.length, 5);
+});
+
+test('refuses to emit the OS-handled interactions', async () => {
+  await assert.rejects(
+    handleOsCall('emit', [{id: 'app_close_button'}], createContext([])),
+    /can only be triggered by the user/,
+  );
+});
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {TEXT_MODEL} from '../geminiProvider';
+import {LIVE_MODELS, LIVE_VOICES} from '../liveSession';
+import {
+  parseContentRequest,
+  parseLiveClientMessage,
+} from '../proxy/validation';
+
+const interaction = {
+  id: 'notepad_app',
+  type: 'app_open',
+  elementType: 'icon',
+  elementText: 'Notepad',
+  appContext: 'notepad_app',
+};
+
+const isBadRequest = (error: {status?: number}) => error.status === 400;
+
+test('accepts a screen request with its interaction', () => {
+  const request = parseContentRequest({
+    model: TEXT_MODEL,
+    prompt: 'p',
+    context: {kind: 'screen', interaction},
+  });
+  assert.deepEqual(request.context, {kind: 'screen', interaction});
+});
+
+test('answers 400 for contexts missing the fields of their kind', () => {
+  for (const context of [
+    {kind: 'screen'},
+    {kind: 'screen', interaction: {id: 'x'}},
+    {kind: 'app_icon', appName: 'Notes'},
+    {kind: 'terminal_command'},
+    {kind: 'unknown'},
+  ]) {
+    assert.throws(
+      () => parseContentRequest({model: TEXT_MODEL, prompt: 'p', context}),
+      isBadRequest,
+    );
+  }
+});
+
+test('answers 400 for models the OS does not use', () => {
+  assert.throws(
+    () =>
+      parseContentRequest({
+        model: 'gemini-2.5-pro',
+        prompt: 'p',
+        context: {kind: 'terminal_command', command: 'ls'},
+      }),
+    isBadRequest,
+  );
+});
+
+test('accepts only well-formed live messages', () => {
+  const setup = {
+    type: 'setup',
+    model: LIVE_MODELS[0],
+    voiceName: LIVE_VOICES[0],
+  };
+  assert.deepEqual(parseLiveClientMessage(JSON.stringify(setup)), setup);
+  const media = {data: 'AAAA', mimeType: 'audio/pcm;rate=16000'};
+  assert.deepEqual(
+    parseLiveClientMessage(JSON.stringify({type: 'input', media})),
+    {type: 'input', media},
+  );
+  for (const message of [
+    'not json',
+    JSON.stringify({...setup, model: 'gemini-2.5-pro'}),
+    JSON.stringify({type: 'input', media: {data: 1}}),
+    JSON.stringify({type: 'input', media: {...media, mimeType: 'video/mp4'}}),
+    JSON.stringify({type: 'close'}),
+  ]) {
+    assert.equal(parseLiveClientMessage(message), null);
+  }
+});
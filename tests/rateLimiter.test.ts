@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {createRateLimiter} from '../proxy/rateLimiter';
+
+test('allows a burst up to the limit, then refills over the window', () => {
+  const limiter = createRateLimiter(2, 60_000);
+  assert.equal(limiter.take('a', 0).allowed, true);
+  assert.equal(limiter.take('a', 0).allowed, true);
+  assert.deepEqual(limiter.take('a', 0), {allowed: false, retryAfterMs: 30_000});
+  assert.equal(limiter.take('a', 30_000).allowed, true);
+});
+
+test('keeps a separate bucket for each client', () => {
+  const limiter = createRateLimiter(1, 60_000);
+  assert.equal(limiter.take('a', 0).allowed, true);
+  assert.equal(limiter.take('a', 0).allowed, false);
+  assert.equal(limiter.take('b', 0).allowed, true);
+});
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {EnvelopeEvent, createEnvelopeParser} from '../responseEnvelope';
+import {ScreenMeta} from '../types';
+
+/** Feeds `chunks` through a fresh parser and collects what it produced. */
+function parse(chunks: string[]) {
+  const parser = createEnvelopeParser();
+  const events: EnvelopeEvent[] = [
+    ...chunks.flatMap((chunk) => parser.push(chunk)),
+    ...parser.finish(),
+  ];
+  let html = '';
+  let meta: ScreenMeta | undefined;
+  for (const event of events) {
+    if (event.type === 'html') html += event.html;
+    else meta = event.meta;
+  }
+  return {html, meta};
+}
+
+test('parses an envelope whose tags are split across chunks', () => {
+  const {html, meta} = parse([
+    '<os-me',
+    'ta>{"title": "Notes", "suggestedActions": ["save"]}</os-',
+    'meta>\n<os-html><div>Hi',
+    '</div></os-ht',
+    'ml>',
+  ]);
+  assert.equal(html, '<div>Hi</div>');
+  assert.equal(meta?.title, 'Notes');
+  assert.deepEqual(meta?.suggestedActions, [{id: 'save', label: 'save'}]);
+  assert.deepEqual(meta?.warnings, []);
+});
+
+test('removes a code fence around a bare HTML response', () => {
+  const {html, meta} = parse(['``', '`html\n<div>Hi</div>\n`', '``\n']);
+  assert.equal(html, '<div>Hi</div>');
+  assert.deepEqual(meta?.warnings, [
+    'The response was not wrapped in a screen envelope.',
+    'Stray markdown code fences were removed from the response.',
+  ]);
+});
+
+test('keeps code fences inside the screen', () => {
+  const screen = '<pre>```js\nlet a = 1;\n```</pre><p>Done</p>';
+  const {html, meta} = parse([
+    `<os-html>${screen.slice(0, 9)}`,
+    `${screen.slice(9)}</os-html>`,
+  ]);
+  assert.equal(html, screen);
+  assert.equal(meta, undefined);
+});
+
+test('reports metadata that is not valid JSON', () => {
+  const {html, meta} = parse([
+    '<os-meta>{title:</os-meta><os-html><p>x</p></os-html>',
+  ]);
+  assert.equal(html, '<p>x</p>');
+  assert.deepEqual(meta?.warnings, [
+    'The screen metadata was not valid JSON and was ignored.',
+  ]);
+});
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {createMockProvider} from '../mockProvider';
+import {
+  ContentChunk,
+  ContentRequest,
+  ModelProvider,
+  getModelProvider,
+  setModelProvider,
+} from '../modelProvider';
+import {createReplayProvider} from '../replayProvider';
+import {isTransientError} from '../retry';
+import {startRecording, stopRecording} from '../sessionRecorder';
+
+const screenRequest = (id: string): ContentRequest => ({
+  model: 'test-model',
+  prompt: `prompt for ${id}`,
+  context: {
+    kind: 'screen',
+    interaction: {
+      id,
+      type: 'click',
+      elementType: 'button',
+      elementText: id,
+      appContext: null,
+    },
+  },
+});
+
+async function collect(stream: AsyncIterable<ContentChunk>) {
+  const texts: string[] = [];
+  for await (const chunk of stream) texts.push(chunk.text ?? '');
+  return texts;
+}
+
+/** Fails the first stream after one chunk with a 503, then answers normally. */
+function createFlakyProvider(): ModelProvider {
+  let calls = 0;
+  return {
+    ...createMockProvider(),
+    async *streamContent(request) {
+      calls++;
+      yield {text: `partial ${calls}`};
+      if (calls === 1) {
+        throw Object.assign(new Error('Service unavailable'), {status: 503});
+      }
+      yield {text: `done ${request.prompt}`};
+    },
+  };
+}
+
+test('a failed stream and its retry replay as a failure and a success', async () => {
+  setModelProvider(createFlakyProvider());
+  startRecording();
+  const provider = getModelProvider();
+  await assert.rejects(collect(provider.streamContent(screenRequest('open'))));
+  const retried = await collect(provider.streamContent(screenRequest('open')));
+  const next = await collect(provider.streamContent(screenRequest('next')));
+  const recording = stopRecording()!;
+
+  const streams = recording.events.filter((event) => event.type === 'stream');
+  assert.equal(streams.length, 3);
+  assert.equal(streams[0].type === 'stream' && streams[0].error?.status, 503);
+
+  const replay = createReplayProvider(recording);
+  const replayed: string[] = [];
+  await assert.rejects(
+    (async () => {
+      for await (const chunk of replay.streamContent(screenRequest('open'))) {
+        replayed.push(chunk.text ?? '');
+      }
+    })(),
+    (error) => {
+      assert.ok(isTransientError(error));
+      return true;
+    },
+  );
+  assert.deepEqual(replayed, ['partial 1']);
+  assert.deepEqual(
+    await collect(replay.streamContent(screenRequest('open'))),
+    retried,
+  );
+  assert.deepEqual(
+    await collect(replay.streamContent(screenRequest('next'))),
+    next,
+  );
+});
+
+test('skipped terminal commands do not shift the other recorded answers', async () => {
+  const recording = {
+    version: 2,
+    recordedAt: '2025-01-01T00:00:00.000Z',
+    providerId: 'mock',
+    events: [
+      {
+        type: 'generate' as const,
+        at: 0,
+        request: {
+          model: 'test-model',
+          prompt: 'terminal',
+          context: {kind: 'terminal_command' as const, command: 'fortune'},
+        },
+        result: {text: 'You will write tests.'},
+      },
+      {
+        type: 'generate' as const,
+        at: 1,
+        request: {
+          model: 'test-model',
+          prompt: 'icon',
+          context: {
+            kind: 'app_icon' as const,
+            appName: 'Notes',
+            appDescription: 'Takes notes',
+          },
+        },
+        result: {text: '📝'},
+      },
+    ],
+  };
+  const replay = createReplayProvider(recording);
+  const icon = await replay.generateContent(recording.events[1].request);
+  assert.equal(icon.text, '📝');
+  await assert.rejects(
+    replay.generateContent(recording.events[1].request),
+    /Replay exhausted/,
+  );
+});
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {resolveShellPath, tokenize} from '../terminalShell';
+
+test('splits a command line into words, keeping quoted spaces', () => {
+  assert.deepEqual(tokenize(`echo "hello  world" 'it''s' ""`), [
+    'echo',
+    'hello  world',
+    'its',
+    '',
+  ]);
+  assert.deepEqual(tokenize('  ls   -l  '), ['ls', '-l']);
+  assert.throws(() => tokenize('echo "open'), /unterminated quote/);
+});
+
+test('resolves shell paths against the working directory', () => {
+  const cwd = '/Documents/Notes';
+  assert.equal(resolveShellPath(cwd, 'todo.txt'), '/Documents/Notes/todo.txt');
+  assert.equal(resolveShellPath(cwd, '../a/./b'), '/Documents/a/b');
+  assert.equal(resolveShellPath(cwd, '~/x'), '/Documents/x');
+  assert.equal(resolveShellPath(cwd, '/Trash'), '/Trash');
+  assert.equal(resolveShellPath(cwd, '../../../..'), '/');
+});
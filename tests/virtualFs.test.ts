@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+  DOCUMENTS_PATH,
+  TRASH_PATH,
+  getNode,
+  moveEntry,
+  writeFile,
+} from '../virtualFs';
+
+// Without IndexedDB the filesystem lives in memory, seeded as on first run.
+
+test('refuses to move or rename the OS folders', async () => {
+  for (const path of ['/', DOCUMENTS_PATH, TRASH_PATH]) {
+    await assert.rejects(
+      moveEntry(path, '/Elsewhere'),
+      /cannot be moved or renamed/,
+    );
+  }
+  assert.equal((await getNode(DOCUMENTS_PATH))?.type, 'dir');
+});
+
+test('refuses to move anything onto the OS folders', async () => {
+  const note = await writeFile(`${DOCUMENTS_PATH}/note.txt`, 'hi');
+  for (const path of ['/', DOCUMENTS_PATH, TRASH_PATH]) {
+    await assert.rejects(moveEntry(note.path, path), /cannot be replaced/);
+  }
+  assert.equal((await getNode(note.path))?.content, 'hi');
+});
+
+test('still moves and renames ordinary entries', async () => {
+  await writeFile(`${DOCUMENTS_PATH}/draft.txt`, 'text');
+  const moved = await moveEntry(
+    `${DOCUMENTS_PATH}/draft.txt`,
+    `${DOCUMENTS_PATH}/Notes/final.txt`,
+  );
+  assert.equal(moved, `${DOCUMENTS_PATH}/Notes/final.txt`);
+  assert.equal(await getNode(`${DOCUMENTS_PATH}/draft.txt`), null);
+});
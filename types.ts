@@ -4,12 +4,39 @@
 */
 /* tslint:disable */
 
+/** Instructions an app contributes to the system prompt while it is active. */
+export interface AppPrompt {
+  /** What the app is and how it behaves. */
+  behavior: string;
+  /** Markup the OS relies on: element ids, interaction ids, structure. */
+  uiContracts?: string;
+  /** App-specific CSS classes on top of the shared `llm-*` classes. */
+  allowedClasses?: string[];
+  /** What the first screen, shown when the app opens, should contain. */
+  initialScreen?: string;
+}
+
+/** OS features an app may use beyond rendering its own screens. */
+export type AppCapability =
+  | 'web_search'
+  | 'image_generation'
+  | 'video_generation'
+  | 'microphone'
+  | 'persistent_storage';
+
 export interface AppDefinition {
   id: string;
   name: string;
   icon: string;
   color: string;
   description?: string;
+  /** Overrides the built-in prompt module for this app id, if any. */
+  prompt?: AppPrompt;
+  capabilities?: AppCapability[];
+  /** Bump when the app changes; cached screens from other versions are not reused. */
+  version?: string;
+  /** Set to false for apps whose screens must always be generated fresh. */
+  cacheable?: boolean;
 }
 
 export interface InteractionData {
@@ -19,4 +46,37 @@ export interface InteractionData {
   elementType: string;
   elementText: string;
   appContext: string | null;
+  /** Files picked in the screen's file inputs, sent to the model with the prompt. */
+  files?: InteractionFile[];
+}
+
+/** A file read from a generated screen's file input. */
+export interface InteractionFile {
+  name: string;
+  /** 'text/plain' for text files, otherwise the image type. */
+  mimeType: string;
+  /** Size in bytes. */
+  size: number;
+  /** The contents, base64-encoded. */
+  data: string;
+}
+
+export interface SuggestedAction {
+  id: string;
+  label: string;
+  value?: string;
+}
+
+/** Structured data the model returns alongside a screen's HTML. */
+export interface ScreenMeta {
+  title?: string;
+  /** App-defined JSON carried forward into the next request for this app. */
+  state?: unknown;
+  suggestedActions: SuggestedAction[];
+  warnings: string[];
+}
+
+export interface CachedScreen {
+  html: string;
+  meta: ScreenMeta;
 }
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {estimateTokens} from './contextCompactor';
+import {TokenUsage} from './modelProvider';
+
+// Records what every model call cost: tokens, grounding searches, latency and
+// an estimated price. Records are kept in localStorage so the usage view and
+// the daily budget survive reloads.
+
+export type UsageKind =
+  | 'screen'
+  | 'prefetch'
+  | 'icon'
+  | 'terminal'
+  | 'image'
+  | 'video'
+  | 'live';
+
+export interface UsageRecord {
+  timestamp: number;
+  sessionId: string;
+  kind: UsageKind;
+  appId: string | null;
+  model: string;
+  providerId: string;
+  latencyMs: number;
+  usage: TokenUsage;
+  /** Google Search queries run while grounding the response. */
+  searchQueries: number;
+  costUsd: number;
+  /** True when the provider reported no usage and tokens were estimated. */
+  estimated: boolean;
+}
+
+export type UsageInput = Omit<
+  UsageRecord,
+  'timestamp' | 'sessionId' | 'costUsd'
+>;
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  toolUseTokens: number;
+  totalTokens: number;
+  searchQueries: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+export interface UsageBudget {
+  /** Tokens per calendar day; null for no limit. */
+  dailyTokenLimit: number | null;
+  dailyCostLimitUsd: number | null;
+  /** 'warn' only reports the overrun; 'block' refuses further model calls. */
+  mode: 'warn' | 'block';
+}
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  blocked: boolean;
+  /** Human-readable description of the exceeded limit, if any. */
+  message: string | null;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  session: UsageTotals;
+  byApp: Record<string, UsageTotals>;
+  budget: UsageBudget;
+  budgetStatus: BudgetStatus;
+}
+
+interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Approximate list prices in USD. Good enough for budgeting, not for invoices.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash': {inputPerMillion: 0.3, outputPerMillion: 2.5},
+  'gemini-2.5-flash-image': {inputPerMillion: 0.3, outputPerMillion: 30},
+};
+const DEFAULT_PRICING = MODEL_PRICING['gemini-2.5-flash'];
+/** Live sessions are billed for audio, whichever live model is used. */
+const LIVE_AUDIO_PRICING: ModelPricing = {
+  inputPerMillion: 3,
+  outputPerMillion: 12,
+};
+const GROUNDING_COST_PER_QUERY = 0.035;
+const VIDEO_COST_PER_SECOND = 0.15;
+const VIDEO_SECONDS = 8;
+/** Only these providers spend real money; mock and replay calls cost nothing. */
+const BILLED_PROVIDERS = ['gemini', 'proxy'];
+
+const USAGE_STORAGE_KEY = 'os.usage.v1';
+const BUDGET_STORAGE_KEY = 'os.usage-budget.v1';
+const MAX_STORED_RECORDS = 2000;
+const RECORD_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_BUDGET: UsageBudget = {
+  dailyTokenLimit: null,
+  dailyCostLimitUsd: null,
+  mode: 'warn',
+};
+
+const sessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+let records: UsageRecord[] | null = null;
+const listeners = new Set<() => void>();
+
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (e) {
+    console.error(`Failed to read ${key} from localStorage:`, e);
+    return fallback;
+  }
+}
+
+function writeStorage(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write ${key} to localStorage:`, e);
+  }
+}
+
+function getRecords(): UsageRecord[] {
+  if (!records) {
+    const cutoff = Date.now() - RECORD_RETENTION_MS;
+    records = readStorage<UsageRecord[]>(USAGE_STORAGE_KEY, []).filter(
+      (record) => record.timestamp >= cutoff,
+    );
+  }
+  return records;
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function estimateCost(
+  input: Pick<UsageInput, 'kind' | 'model' | 'providerId' | 'usage' | 'searchQueries'>,
+): number {
+  if (!BILLED_PROVIDERS.includes(input.providerId)) return 0;
+  if (input.kind === 'video') return VIDEO_COST_PER_SECOND * VIDEO_SECONDS;
+  const pricing =
+    input.kind === 'live'
+      ? LIVE_AUDIO_PRICING
+      : (MODEL_PRICING[input.model] ?? DEFAULT_PRICING);
+  const {promptTokens, toolUseTokens, outputTokens, thoughtsTokens} =
+    input.usage;
+  return (
+    ((promptTokens + toolUseTokens) * pricing.inputPerMillion +
+      (outputTokens + thoughtsTokens) * pricing.outputPerMillion) /
+      1_000_000 +
+    input.searchQueries * GROUNDING_COST_PER_QUERY
+  );
+}
+
+/** Usage for a call whose provider reported none, estimated from the text. */
+export function estimateUsage(prompt: string, output: string): TokenUsage {
+  const promptTokens = estimateTokens(prompt);
+  const outputTokens = estimateTokens(output);
+  return {
+    promptTokens,
+    outputTokens,
+    toolUseTokens: 0,
+    thoughtsTokens: 0,
+    totalTokens: promptTokens + outputTokens,
+  };
+}
+
+export function recordUsage(input: UsageInput): UsageRecord {
+  const record: UsageRecord = {
+    ...input,
+    timestamp: Date.now(),
+    sessionId,
+    costUsd: estimateCost(input),
+  };
+  const all = getRecords();
+  all.push(record);
+  if (all.length > MAX_STORED_RECORDS) {
+    all.splice(0, all.length - MAX_STORED_RECORDS);
+  }
+  writeStorage(USAGE_STORAGE_KEY, all);
+  notify();
+  return record;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    outputTokens: 0,
+    toolUseTokens: 0,
+    totalTokens: 0,
+    searchQueries: 0,
+    costUsd: 0,
+    latencyMs: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord) {
+  totals.calls++;
+  totals.promptTokens += record.usage.promptTokens;
+  totals.outputTokens += record.usage.outputTokens;
+  totals.toolUseTokens += record.usage.toolUseTokens;
+  totals.totalTokens += record.usage.totalTokens;
+  totals.searchQueries += record.searchQueries;
+  totals.costUsd += record.costUsd;
+  totals.latencyMs += record.latencyMs;
+}
+
+function startOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function totalsSince(since: number): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of getRecords()) {
+    if (record.timestamp >= since) addToTotals(totals, record);
+  }
+  return totals;
+}
+
+/** Tokens spent today on calls of one kind, e.g. to cap prefetching. */
+export function getTokensToday(kind: UsageKind, now = Date.now()): number {
+  const dayStart = startOfDay(now);
+  return getRecords()
+    .filter((record) => record.kind === kind && record.timestamp >= dayStart)
+    .reduce((tokens, record) => tokens + record.usage.totalTokens, 0);
+}
+
+export function getBudget(): UsageBudget {
+  return {...DEFAULT_BUDGET, ...readStorage(BUDGET_STORAGE_KEY, {})};
+}
+
+export function setBudget(budget: UsageBudget): void {
+  writeStorage(BUDGET_STORAGE_KEY, budget);
+  notify();
+}
+
+export function getBudgetStatus(now = Date.now()): BudgetStatus {
+  const budget = getBudget();
+  const today = totalsSince(startOfDay(now));
+  let message: string | null = null;
+  if (
+    budget.dailyTokenLimit !== null &&
+    today.totalTokens >= budget.dailyTokenLimit
+  ) {
+    message = `Daily token budget reached (${today.totalTokens.toLocaleString()} of ${budget.dailyTokenLimit.toLocaleString()} tokens).`;
+  } else if (
+    budget.dailyCostLimitUsd !== null &&
+    today.costUsd >= budget.dailyCostLimitUsd
+  ) {
+    message = `Daily cost budget reached ($${today.costUsd.toFixed(2)} of $${budget.dailyCostLimitUsd.toFixed(2)}).`;
+  }
+  return {
+    exceeded: message !== null,
+    blocked: message !== null && budget.mode === 'block',
+    message,
+  };
+}
+
+/** Throws when the daily budget is exhausted and set to block model calls. */
+export function assertWithinBudget(): void {
+  const status = getBudgetStatus();
+  if (status.blocked) {
+    throw new Error(`${status.message} Model calls are blocked until tomorrow.`);
+  }
+}
+
+export function summarizeUsage(now = Date.now()): UsageSummary {
+  const today = emptyTotals();
+  const session = emptyTotals();
+  const byApp: Record<string, UsageTotals> = {};
+  const dayStart = startOfDay(now);
+  for (const record of getRecords()) {
+    if (record.timestamp >= dayStart) addToTotals(today, record);
+    if (record.sessionId === sessionId) {
+      addToTotals(session, record);
+      const appKey = record.appId ?? 'system';
+      addToTotals((byApp[appKey] ??= emptyTotals()), record);
+    }
+  }
+  return {
+    today,
+    session,
+    byApp,
+    budget: getBudget(),
+    budgetStatus: getBudgetStatus(now),
+  };
+}
+
+/** The most recent records, newest first. */
+export function getRecentUsage(limit: number): UsageRecord[] {
+  return getRecords().slice(-limit).reverse();
+}
+
+export function clearUsage(): void {
+  records = [];
+  writeStorage(USAGE_STORAGE_KEY, records);
+  notify();
+}
+
+/** Calls `listener` whenever usage or the budget changes. Returns an unsubscribe function. */
+export function subscribeToUsage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
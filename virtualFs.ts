@@ -0,0 +1,407 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+
+// The OS's own filesystem, shared by Documents, Notepad, Trash Bin and
+// Terminal. Nodes are stored flat in IndexedDB, keyed by absolute path; the
+// tree is small, so operations load it whole and write back what changed in
+// a single transaction. Without IndexedDB it falls back to memory.
+
+export type FsNodeType = 'file' | 'dir';
+
+export interface FsNode {
+  /** Absolute path, e.g. "/Documents/notes.txt". The root is "/". */
+  path: string;
+  type: FsNodeType;
+  /** Text content; files only. */
+  content?: string;
+  size: number;
+  createdAt: number;
+  modifiedAt: number;
+  /** For items in the Trash: where they were deleted from. */
+  trashedFrom?: string;
+}
+
+export const TRASH_PATH = '/Trash';
+export const DOCUMENTS_PATH = '/Documents';
+/** Folders the OS relies on; they are never moved, renamed or deleted. */
+const PROTECTED_PATHS = ['/', DOCUMENTS_PATH, TRASH_PATH];
+
+const DB_NAME = 'os-filesystem';
+const DB_VERSION = 1;
+const STORE_NAME = 'nodes';
+const MAX_FILE_SIZE = 1_000_000;
+
+type NodeMap = Map<string, FsNode>;
+
+function seedNodes(): FsNode[] {
+  const now = Date.now();
+  const dir = (path: string): FsNode => ({
+    path,
+    type: 'dir',
+    size: 0,
+    createdAt: now,
+    modifiedAt: now,
+  });
+  const welcome =
+    'Welcome to MichaelWalshOS!\n\nFiles saved in Notepad appear here in Documents. Deleted files go to the Trash Bin, where they can be restored.\n';
+  return [
+    dir('/'),
+    dir(DOCUMENTS_PATH),
+    dir(`${DOCUMENTS_PATH}/Notes`),
+    dir(TRASH_PATH),
+    {
+      path: `${DOCUMENTS_PATH}/Welcome.txt`,
+      type: 'file',
+      content: welcome,
+      size: welcome.length,
+      createdAt: now,
+      modifiedAt: now,
+    },
+  ];
+}
+
+// --- Storage ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let memoryNodes: NodeMap | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: 'path',
+        });
+        seedNodes().forEach((node) => store.put(node));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error(
+          'Failed to open the filesystem database, files will not persist:',
+          request.error,
+        );
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function loadNodes(): Promise<NodeMap> {
+  const db = await openDatabase();
+  if (!db) {
+    memoryNodes ??= new Map(seedNodes().map((node) => [node.path, node]));
+    return new Map(memoryNodes);
+  }
+  const nodes = await requestToPromise(
+    db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll(),
+  );
+  return new Map((nodes as FsNode[]).map((node) => [node.path, node]));
+}
+
+async function commit(puts: FsNode[], deletes: string[] = []): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    deletes.forEach((path) => memoryNodes!.delete(path));
+    puts.forEach((node) => memoryNodes!.set(node.path, node));
+    return;
+  }
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  deletes.forEach((path) => store.delete(path));
+  puts.forEach((node) => store.put(node));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// --- Paths ---
+
+/** Normalizes an absolute path, or throws if it is not one. */
+export function normalizePath(path: string): string {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('/')) {
+    throw new Error(`"${path}" is not an absolute path.`);
+  }
+  const segments = trimmed.split('/').filter((s) => s !== '' && s !== '.');
+  if (segments.includes('..')) {
+    throw new Error(`"${path}" may not contain "..".`);
+  }
+  return `/${segments.join('/')}`;
+}
+
+export function parentPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index <= 0 ? '/' : path.substring(0, index);
+}
+
+export function baseName(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1);
+}
+
+const joinPath = (dir: string, name: string) =>
+  dir === '/' ? `/${name}` : `${dir}/${name}`;
+
+const isWithin = (path: string, dir: string) =>
+  path === dir || path.startsWith(dir === '/' ? '/' : `${dir}/`);
+
+/** A free path in `dir` for `name`, adding " (2)", " (3)", ... on collisions. */
+function uniquePath(nodes: NodeMap, dir: string, name: string): string {
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.substring(0, dot) : name;
+  const extension = dot > 0 ? name.substring(dot) : '';
+  let candidate = joinPath(dir, name);
+  for (let n = 2; nodes.has(candidate); n++) {
+    candidate = joinPath(dir, `${stem} (${n})${extension}`);
+  }
+  return candidate;
+}
+
+function requireNode(
+  nodes: NodeMap,
+  path: string,
+  type?: FsNodeType,
+): FsNode {
+  const node = nodes.get(path);
+  if (!node) throw new Error(`${path}: no such file or directory.`);
+  if (type && node.type !== type) {
+    throw new Error(
+      `${path}: ${type === 'dir' ? 'not a directory' : 'is a directory'}.`,
+    );
+  }
+  return node;
+}
+
+/** Moves a node and, for directories, everything under it. */
+function moveNode(
+  nodes: NodeMap,
+  from: string,
+  to: string,
+  changes: Partial<FsNode>,
+): {puts: FsNode[]; deletes: string[]} {
+  const puts: FsNode[] = [];
+  const deletes: string[] = [];
+  for (const node of nodes.values()) {
+    if (!isWithin(node.path, from)) continue;
+    const moved = {...node, path: to + node.path.substring(from.length)};
+    if (node.path === from) Object.assign(moved, changes);
+    deletes.push(node.path);
+    puts.push(moved);
+  }
+  return {puts, deletes};
+}
+
+// --- Operations ---
+
+export async function listDirectory(path: string): Promise<FsNode[]> {
+  const dir = normalizePath(path);
+  const nodes = await loadNodes();
+  requireNode(nodes, dir, 'dir');
+  return Array.from(nodes.values())
+    .filter((node) => node.path !== dir && parentPath(node.path) === dir)
+    .sort(
+      (a, b) =>
+        (a.type === b.type ? 0 : a.type === 'dir' ? -1 : 1) ||
+        a.path.localeCompare(b.path),
+    );
+}
+
+export async function getNode(path: string): Promise<FsNode | null> {
+  return (await loadNodes()).get(normalizePath(path)) ?? null;
+}
+
+export async function readFile(path: string): Promise<FsNode> {
+  return requireNode(await loadNodes(), normalizePath(path), 'file');
+}
+
+/** Creates or overwrites a text file. Its directory must exist. */
+export async function writeFile(
+  path: string,
+  content: string,
+): Promise<FsNode> {
+  const filePath = normalizePath(path);
+  if (content.length > MAX_FILE_SIZE) {
+    throw new Error(
+      `${filePath}: file is larger than ${MAX_FILE_SIZE} characters.`,
+    );
+  }
+  const nodes = await loadNodes();
+  requireNode(nodes, parentPath(filePath), 'dir');
+  const existing = nodes.get(filePath);
+  if (existing?.type === 'dir') {
+    throw new Error(`${filePath}: is a directory.`);
+  }
+  const now = Date.now();
+  const node: FsNode = {
+    path: filePath,
+    type: 'file',
+    content,
+    size: content.length,
+    createdAt: existing?.createdAt ?? now,
+    modifiedAt: now,
+  };
+  await commit([node]);
+  return node;
+}
+
+export async function makeDirectory(path: string): Promise<FsNode> {
+  const dirPath = normalizePath(path);
+  const nodes = await loadNodes();
+  requireNode(nodes, parentPath(dirPath), 'dir');
+  if (nodes.has(dirPath)) throw new Error(`${dirPath}: already exists.`);
+  const now = Date.now();
+  const node: FsNode = {
+    path: dirPath,
+    type: 'dir',
+    size: 0,
+    createdAt: now,
+    modifiedAt: now,
+  };
+  await commit([node]);
+  return node;
+}
+
+/** Renames or moves a node; fails if the destination exists. */
+export async function moveEntry(from: string, to: string): Promise<string> {
+  const source = normalizePath(from);
+  const destination = normalizePath(to);
+  if (PROTECTED_PATHS.includes(source)) {
+    throw new Error(`${source} cannot be moved or renamed.`);
+  }
+  if (PROTECTED_PATHS.includes(destination)) {
+    throw new Error(`${destination} cannot be replaced.`);
+  }
+  const nodes = await loadNodes();
+  requireNode(nodes, source);
+  requireNode(nodes, parentPath(destination), 'dir');
+  if (nodes.has(destination)) throw new Error(`${destination}: already exists.`);
+  if (isWithin(destination, source)) {
+    throw new Error(`Cannot move ${source} into itself.`);
+  }
+  const {puts, deletes} = moveNode(nodes, source, destination, {
+    modifiedAt: Date.now(),
+  });
+  await commit(puts, deletes);
+  return destination;
+}
+
+/** Moves a file or directory to the Trash, remembering where it came from. */
+export async function moveToTrash(path: string): Promise<string> {
+  const source = normalizePath(path);
+  if (PROTECTED_PATHS.includes(source)) {
+    throw new Error(`${source} cannot be deleted.`);
+  }
+  const nodes = await loadNodes();
+  requireNode(nodes, source);
+  if (isWithin(source, TRASH_PATH)) {
+    throw new Error(`${source} is already in the Trash.`);
+  }
+  const destination = uniquePath(nodes, TRASH_PATH, baseName(source));
+  const {puts, deletes} = moveNode(nodes, source, destination, {
+    trashedFrom: source,
+  });
+  await commit(puts, deletes);
+  return destination;
+}
+
+/** Moves a trashed item back to where it was deleted from. */
+export async function restoreFromTrash(path: string): Promise<string> {
+  const source = normalizePath(path);
+  const nodes = await loadNodes();
+  const node = requireNode(nodes, source);
+  if (parentPath(source) !== TRASH_PATH || !node.trashedFrom) {
+    throw new Error(`${source} is not an item in the Trash.`);
+  }
+  // Fall back to Documents if the original folder is gone.
+  let dir = parentPath(node.trashedFrom);
+  if (nodes.get(dir)?.type !== 'dir') dir = DOCUMENTS_PATH;
+  const destination = uniquePath(nodes, dir, baseName(node.trashedFrom));
+  const {puts, deletes} = moveNode(nodes, source, destination, {
+    trashedFrom: undefined,
+  });
+  await commit(puts, deletes);
+  return destination;
+}
+
+/** Whether `path` is something in the Trash, rather than the Trash itself. */
+export function isInTrash(path: string): boolean {
+  const target = normalizePath(path);
+  return target !== TRASH_PATH && isWithin(target, TRASH_PATH);
+}
+
+/**
+ * Removes a trashed node and everything under it for good. Anything else has
+ * to be moved to the Trash first.
+ */
+export async function deletePermanently(path: string): Promise<void> {
+  const target = normalizePath(path);
+  if (!isInTrash(target)) {
+    throw new Error(`${target} is not in the Trash.`);
+  }
+  const nodes = await loadNodes();
+  requireNode(nodes, target);
+  const deletes = Array.from(nodes.keys()).filter((p) => isWithin(p, target));
+  await commit([], deletes);
+}
+
+/** Deletes everything in the Trash; resolves to the number of items removed. */
+export async function emptyTrash(): Promise<number> {
+  const nodes = await loadNodes();
+  const deletes = Array.from(nodes.keys()).filter(
+    (p) => p !== TRASH_PATH && isWithin(p, TRASH_PATH),
+  );
+  await commit([], deletes);
+  return deletes.filter((p) => parentPath(p) === TRASH_PATH).length;
+}
+
+// --- Prompt context ---
+
+const MAX_LISTING_ENTRIES = 150;
+
+function formatNode(node: FsNode, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const modified = new Date(node.modifiedAt).toISOString().substring(0, 16);
+  const origin = node.trashedFrom ? `, deleted from ${node.trashedFrom}` : '';
+  if (node.type === 'dir') {
+    return `${indent}${baseName(node.path)}/${origin ? ` (${origin.substring(2)})` : ''}`;
+  }
+  return `${indent}${baseName(node.path)} (${node.size} bytes, modified ${modified}${origin})`;
+}
+
+/** Renders the subtree at `root` as an indented listing for the prompt. */
+export async function describeTree(root: string): Promise<string> {
+  const rootPath = normalizePath(root);
+  const nodes = await loadNodes();
+  requireNode(nodes, rootPath, 'dir');
+  const lines: string[] = [];
+  const visit = (dir: string, depth: number) => {
+    const children = Array.from(nodes.values())
+      .filter((node) => node.path !== dir && parentPath(node.path) === dir)
+      .sort((a, b) => a.path.localeCompare(b.path));
+    for (const child of children) {
+      if (lines.length >= MAX_LISTING_ENTRIES) return;
+      lines.push(formatNode(child, depth));
+      if (child.type === 'dir') visit(child.path, depth + 1);
+    }
+  };
+  visit(rootPath, 0);
+  if (lines.length >= MAX_LISTING_ENTRIES) lines.push('… (listing truncated)');
+  return lines.length > 0 ? lines.join('\n') : '(empty)';
+}
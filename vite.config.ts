@@ -4,10 +4,24 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Behind the API proxy the key stays on the server and out of the bundle.
+    const apiKey = env.MODEL_PROVIDER === 'proxy' ? undefined : env.GEMINI_API_KEY;
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL)
+      },
+      server: {
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.PROXY_PORT || 8787}`,
+            ws: true,
+            // Lets the proxy rate-limit each browser rather than this server.
+            xfwd: true
+          }
+        }
       },
       resolve: {
         alias: {
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+import {createEmptyScreenMeta} from './responseEnvelope';
+import {InteractionData, ScreenMeta} from './types';
+
+// Open windows and their stacking order. Each window runs one app with its
+// own screen, interaction history and loading state, so apps can stream side
+// by side. The functions here are pure; App keeps the list in state.
+
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A screen a window can go back or forward to; its HTML comes from the cache. */
+export interface NavigationEntry {
+  path: string[];
+  history: InteractionData[];
+}
+
+export interface AppWindow {
+  id: string;
+  appId: string;
+  content: string;
+  meta: ScreenMeta;
+  /** Interactions in this window, newest first. */
+  history: InteractionData[];
+  /** Interaction ids from the app's first screen to this one; the cache key. */
+  path: string[];
+  /** Screens behind and ahead of this one, nearest last. */
+  backStack: NavigationEntry[];
+  forwardStack: NavigationEntry[];
+  isLoading: boolean;
+  error: string | null;
+  retryStatus: string | null;
+  /** Bumped to re-render the current screen from scratch. */
+  reloadCount: number;
+  bounds: WindowBounds;
+  zIndex: number;
+  isMinimized: boolean;
+  isMaximized: boolean;
+}
+
+export const MIN_WINDOW_WIDTH = 320;
+export const MIN_WINDOW_HEIGHT = 200;
+const DEFAULT_WINDOW_WIDTH = 900;
+const DEFAULT_WINDOW_HEIGHT = 640;
+const CASCADE_OFFSET = 32;
+const CASCADE_STEPS = 8;
+const MAX_NAVIGATION_ENTRIES = 50;
+/** Pixels of the title bar that must stay on screen so a window can be dragged back. */
+const MIN_VISIBLE_TITLE_BAR = 80;
+
+let nextWindowId = 0;
+
+const topZIndex = (windows: AppWindow[]) =>
+  windows.reduce((top, window) => Math.max(top, window.zIndex), 0);
+
+/** A new window for `appId`, cascaded from the other open windows. */
+export function createWindow(
+  appId: string,
+  windows: AppWindow[],
+  desktop: {width: number; height: number},
+): AppWindow {
+  const step = windows.length % CASCADE_STEPS;
+  const width = Math.max(
+    MIN_WINDOW_WIDTH,
+    Math.min(DEFAULT_WINDOW_WIDTH, desktop.width - 80),
+  );
+  const height = Math.max(
+    MIN_WINDOW_HEIGHT,
+    Math.min(DEFAULT_WINDOW_HEIGHT, desktop.height - 100),
+  );
+  return {
+    id: `window-${++nextWindowId}`,
+    appId,
+    content: '',
+    meta: createEmptyScreenMeta(),
+    history: [],
+    path: [],
+    backStack: [],
+    forwardStack: [],
+    isLoading: false,
+    error: null,
+    retryStatus: null,
+    reloadCount: 0,
+    bounds: {
+      x: Math.max(0, (desktop.width - width) / 2 - 60) + step * CASCADE_OFFSET,
+      y: 24 + step * CASCADE_OFFSET,
+      width,
+      height,
+    },
+    zIndex: topZIndex(windows) + 1,
+    isMinimized: false,
+    isMaximized: false,
+  };
+}
+
+/** Brings a window to the front, restoring it if it was minimised. */
+export function focusWindow(windows: AppWindow[], id: string): AppWindow[] {
+  const target = windows.find((window) => window.id === id);
+  if (!target) return windows;
+  if (target.zIndex === topZIndex(windows) && !target.isMinimized) {
+    return windows;
+  }
+  const zIndex = topZIndex(windows) + 1;
+  return windows.map((window) =>
+    window.id === id ? {...window, zIndex, isMinimized: false} : window,
+  );
+}
+
+/** The window receiving input: the frontmost one that is not minimised. */
+export function getFocusedWindow(windows: AppWindow[]): AppWindow | null {
+  return windows.reduce<AppWindow | null>(
+    (top, window) =>
+      !window.isMinimized && (!top || window.zIndex > top.zIndex)
+        ? window
+        : top,
+    null,
+  );
+}
+
+/** Keeps a window at least its minimum size and its title bar reachable. */
+export function clampBounds(
+  bounds: WindowBounds,
+  desktop: {width: number; height: number},
+): WindowBounds {
+  const width = Math.max(MIN_WINDOW_WIDTH, bounds.width);
+  const height = Math.max(MIN_WINDOW_HEIGHT, bounds.height);
+  return {
+    width,
+    height,
+    x: Math.min(
+      Math.max(bounds.x, MIN_VISIBLE_TITLE_BAR - width),
+      desktop.width - MIN_VISIBLE_TITLE_BAR,
+    ),
+    y: Math.min(Math.max(bounds.y, 0), desktop.height - 40),
+  };
+}
+
+/**
+ * The window `step` places after the focused one in opening order, wrapping
+ * around; minimised windows are included so they can be switched back to.
+ */
+export function getAdjacentWindow(
+  windows: AppWindow[],
+  step: 1 | -1,
+): AppWindow | null {
+  if (windows.length === 0) return null;
+  const focused = getFocusedWindow(windows);
+  // With nothing focused, start from the first (or last) window.
+  const index = focused
+    ? windows.indexOf(focused)
+    : step === 1
+      ? -1
+      : windows.length;
+  return windows[(index + step + windows.length) % windows.length];
+}
+
+const toEntry = ({path, history}: AppWindow): NavigationEntry => ({
+  path,
+  history,
+});
+
+/** Stack updates for leaving the current screen for a new one, as a link does. */
+export function leaveScreen(
+  appWindow: AppWindow,
+): Pick<AppWindow, 'backStack' | 'forwardStack'> {
+  if (appWindow.path.length === 0) {
+    return {backStack: appWindow.backStack, forwardStack: []};
+  }
+  return {
+    backStack: [...appWindow.backStack, toEntry(appWindow)].slice(
+      -MAX_NAVIGATION_ENTRIES,
+    ),
+    forwardStack: [],
+  };
+}
+
+/**
+ * The entry one step back (-1) or forward (1) and the stacks after moving to
+ * it, or null if there is nowhere to go.
+ */
+export function stepNavigation(
+  appWindow: AppWindow,
+  step: 1 | -1,
+): {
+  entry: NavigationEntry;
+  backStack: NavigationEntry[];
+  forwardStack: NavigationEntry[];
+} | null {
+  const from = step === -1 ? appWindow.backStack : appWindow.forwardStack;
+  const to = step === -1 ? appWindow.forwardStack : appWindow.backStack;
+  const entry = from[from.length - 1];
+  if (!entry) return null;
+  const remaining = from.slice(0, -1);
+  const left = [...to, toEntry(appWindow)].slice(-MAX_NAVIGATION_ENTRIES);
+  return step === -1
+    ? {entry, backStack: remaining, forwardStack: left}
+    : {entry, backStack: left, forwardStack: remaining};
+}